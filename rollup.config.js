@@ -19,6 +19,15 @@ const banner = `
 const external = Object.keys(pkg.dependencies)
 external.push('svelte/store')
 
+// the testing entry point imports the main entry point instead of bundling it
+const importMain = {
+    name: 'import-main',
+    resolveId: (source, importer) =>
+        source === './index' && importer && importer.endsWith('testing.ts')
+            ? {id: pkg.name, external: true}
+            : null,
+}
+
 export default [
     {
         input: 'src/index.ts',
@@ -50,6 +59,37 @@ export default [
         onwarn,
         plugins: [dts()],
     },
+    {
+        input: 'src/testing.ts',
+        output: {
+            banner,
+            file: 'lib/testing.js',
+            format: 'cjs',
+            sourcemap: true,
+        },
+        plugins: [importMain, typescript({target: 'es6'})],
+        external,
+        onwarn,
+    },
+    {
+        input: 'src/testing.ts',
+        output: {
+            banner,
+            file: 'lib/testing.m.js',
+            format: 'esm',
+            sourcemap: true,
+        },
+        plugins: [importMain, typescript({target: 'esnext'})],
+        external,
+        onwarn,
+    },
+    {
+        input: 'src/testing.ts',
+        output: {banner, file: 'lib/testing.d.ts', format: 'esm'},
+        onwarn,
+        external,
+        plugins: [importMain, dts()],
+    },
 ]
 
 function onwarn(warning, rollupWarn) {
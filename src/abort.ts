@@ -0,0 +1,9 @@
+/**
+ * Error used when a run or delay is aborted, named like the error fetch rejects with.
+ * @internal
+ */
+export function abortError() {
+    const error = new Error('Aborted')
+    error.name = 'AbortError'
+    return error
+}
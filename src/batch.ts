@@ -0,0 +1,97 @@
+import type {Readable} from 'svelte/store'
+
+/** A derived store waiting to recompute. */
+export interface Job {
+    /** Stores are run in order of rank, a store ranks higher than all of its inputs. */
+    rank: number
+    run: () => void
+}
+
+const ranks = new WeakMap<Readable<any>, number>()
+const queue = new Set<Job>()
+let depth = 0
+let flushing = false
+
+/**
+ * Run the function with the recomputation of derived stores held back until it returns.
+ * Every derived store affected by the changes made in the function then runs once, after all
+ * of its inputs have been updated, instead of once for every change.
+ * ```ts
+ * batch(() => {
+ *     firstName.set({value: 'Jane'})
+ *     lastName.set({value: 'Doe'})
+ * }) // fullName is derived once
+ * ```
+ * @returns What the function returns.
+ */
+export function batch<T>(fn: () => T): T {
+    depth++
+    try {
+        return fn()
+    } finally {
+        depth--
+        if (depth === 0) {
+            flush()
+        }
+    }
+}
+
+/**
+ * Rank a store above the stores it is derived from.
+ * @internal
+ */
+export function rank(store: Readable<any>, inputs: Readable<any>[]) {
+    ranks.set(
+        store,
+        inputs.reduce((max, input) => Math.max(max, rankOf(input) + 1), 1)
+    )
+}
+
+/**
+ * The rank of a store, stores that aren't ranked are treated as sources.
+ * @internal
+ */
+export function rankOf(store: Readable<any>) {
+    return ranks.get(store) || 0
+}
+
+/**
+ * Queue a job, it runs when the current batch ends or right away if there is none.
+ * @internal
+ */
+export function schedule(job: Job) {
+    queue.add(job)
+    if (depth === 0) {
+        flush()
+    }
+}
+
+/**
+ * Remove a job from the queue, e.g. when its store stops.
+ * @internal
+ */
+export function unschedule(job: Job) {
+    queue.delete(job)
+}
+
+/** Run the queued jobs lowest rank first, jobs queued while flushing are run in the same flush. */
+function flush() {
+    if (flushing) {
+        return
+    }
+    flushing = true
+    try {
+        while (queue.size > 0) {
+            let next: Job | undefined
+            for (const job of queue) {
+                if (!next || job.rank < next.rank) {
+                    next = job
+                }
+            }
+            queue.delete(next!)
+            next!.run()
+        }
+    } finally {
+        flushing = false
+    }
+}
@@ -0,0 +1,248 @@
+import type {Readable} from 'svelte/store'
+
+import type {Result, ResultState} from './index'
+
+/** A store seen by the inspector, stores are only registered while debugging is enabled. */
+export interface DebugNode {
+    id: number
+    /** The `name` option of the store, defaults to the kind and id, or the input name and kind for transforms. */
+    name: string
+    /** What created the store, e.g. `readable`, `derived` or `mapValue`. */
+    kind: string
+    /** Stores this store is derived from. */
+    inputs: DebugNode[]
+    /** Stores derived from this store. */
+    outputs: DebugNode[]
+    /** The last result seen, stores only update while they have subscribers. */
+    result: Result<any, any>
+}
+
+/** A change of result of a store. */
+export interface Transition {
+    node: DebugNode
+    from: ResultState
+    to: ResultState
+    result: Result<any, any>
+    /** Timestamp in milliseconds. */
+    time: number
+    /** Milliseconds since the previous transition of the store. */
+    elapsed: number
+}
+
+export interface DebugOptions {
+    /** Log transitions to the console, or to the given function. Defaults to false. */
+    log?: boolean | ((transition: Transition) => void)
+    /** How many transitions are kept, older ones are dropped. Defaults to 1000. */
+    maxTransitions?: number
+}
+
+export interface Inspector {
+    /** All stores created since debugging was enabled. */
+    nodes(): DebugNode[]
+    /** The node of a store, or of the first store with the given name. */
+    find(store: Readable<any> | string): DebugNode | undefined
+    /**
+     * Follow the erroring inputs of a store to the store where the error originated.
+     * @returns The node of that store, or undefined if the store hasn't errored.
+     */
+    origin(store: Readable<any> | string): DebugNode | undefined
+    /** The recorded transitions, oldest first. */
+    transitions(): Transition[]
+    /** Call the listener with every new transition, returns a function that removes it. */
+    onTransition(listener: (transition: Transition) => void): () => void
+    /** Drop the recorded transitions. */
+    clear(): void
+}
+
+interface Session {
+    nodes: DebugNode[]
+    transitions: Transition[]
+    listeners: Set<(transition: Transition) => void>
+    options: DebugOptions
+}
+
+interface Tracked {
+    session: Session
+    node: DebugNode
+    since: number
+}
+
+let session: Session | undefined
+let ids = 0
+const tracked = new WeakMap<Readable<any>, Tracked>()
+
+/**
+ * Start debugging, stores created from now on are given an id, added to the dependency graph
+ * and have their result transitions recorded. Has no effect on stores created before.
+ */
+export function enableDebug(options: DebugOptions = {}): Inspector {
+    const current: Session = {nodes: [], transitions: [], listeners: new Set(), options}
+    session = current
+    const lookup = (store: Readable<any> | string) => {
+        if (typeof store === 'string') {
+            return current.nodes.find((node) => node.name === store)
+        }
+        const entry = tracked.get(store)
+        return entry && entry.session === current ? entry.node : undefined
+    }
+    return {
+        nodes: () => current.nodes.slice(),
+        find: lookup,
+        origin: (store) => {
+            let node = lookup(store)
+            if (!node || node.result.state !== 'err') {
+                return undefined
+            }
+            let next: DebugNode | undefined = node
+            while (next) {
+                node = next
+                next = node.inputs.find((input) => input.result.state === 'err')
+            }
+            return node
+        },
+        transitions: () => current.transitions.slice(),
+        onTransition: (listener) => {
+            current.listeners.add(listener)
+            return () => {
+                current.listeners.delete(listener)
+            }
+        },
+        clear: () => {
+            current.transitions = []
+        },
+    }
+}
+
+/** Stop debugging, stores created before keep being recorded to the inspector they were created with. */
+export function disableDebug() {
+    session = undefined
+}
+
+/**
+ * Register a store with the inspector if debugging is enabled.
+ * @returns A copy of the store that records the results it emits, or the store as is.
+ * @internal
+ */
+export function trace<S extends Readable<Result<any, any>>>(
+    store: S,
+    kind: string,
+    inputs: Readable<any>[],
+    name?: string
+): S {
+    if (!session) {
+        return store
+    }
+    const current = session
+    const inputNodes = inputs.map((input) => nodeOf(current, input))
+    const id = ++ids
+    const node: DebugNode = {
+        id,
+        name: name || defaultName(kind, id, inputNodes),
+        kind,
+        inputs: inputNodes,
+        outputs: [],
+        result: {state: 'pending'},
+    }
+    inputNodes.forEach((input) => input.outputs.push(node))
+    current.nodes.push(node)
+    const entry: Tracked = {session: current, node, since: now()}
+    const traced: S = {
+        ...store,
+        subscribe: (run: any, invalidate?: any) =>
+            store.subscribe((result) => {
+                record(entry, result)
+                run(result)
+            }, invalidate),
+    }
+    tracked.set(traced, entry)
+    return traced
+}
+
+/**
+ * Give a store the node of the store it wraps.
+ * @internal
+ */
+export function link(store: Readable<any>, source: Readable<any>) {
+    const entry = tracked.get(source)
+    if (entry) {
+        tracked.set(store, entry)
+    }
+}
+
+/** Inputs that weren't created while debugging are added as external stores. */
+function nodeOf(current: Session, store: Readable<any>) {
+    const entry = tracked.get(store)
+    if (entry && entry.session === current) {
+        return entry.node
+    }
+    const node: DebugNode = {
+        id: ++ids,
+        name: `external#${ids}`,
+        kind: 'external',
+        inputs: [],
+        outputs: [],
+        result: {state: 'pending'},
+    }
+    current.nodes.push(node)
+    tracked.set(store, {session: current, node, since: now()})
+    return node
+}
+
+function defaultName(kind: string, id: number, inputs: DebugNode[]) {
+    // transforms are named after the store they transform
+    return inputs.length === 1 && kind !== 'derived' ? `${inputs[0].name}.${kind}` : `${kind}#${id}`
+}
+
+function record(entry: Tracked, result: Result<any, any>) {
+    const {node} = entry
+    const previous = node.result
+    // the same result is seen once for every subscriber
+    if (
+        previous.state === result.state &&
+        previous.loading === result.loading &&
+        Object.is(previous.value, result.value) &&
+        Object.is(previous.error, result.error)
+    ) {
+        return
+    }
+    const time = now()
+    const transition: Transition = {
+        node,
+        from: previous.state,
+        to: result.state,
+        result,
+        time,
+        elapsed: time - entry.since,
+    }
+    node.result = result
+    entry.since = time
+    const {transitions, options, listeners} = entry.session
+    transitions.push(transition)
+    const max = options.maxTransitions || 1000
+    if (transitions.length > max) {
+        transitions.splice(0, transitions.length - max)
+    }
+    const {log} = options
+    if (typeof log === 'function') {
+        log(transition)
+    } else if (log) {
+        logTransition(transition)
+    }
+    listeners.forEach((listener) => listener(transition))
+}
+
+function logTransition({node, from, to, result, elapsed}: Transition) {
+    const loading = result.loading ? ' (loading)' : ''
+    const args: any[] = [`[${node.name}] ${from} → ${to}${loading} after ${elapsed.toFixed(1)}ms`]
+    if (result.state === 'err') {
+        args.push(result.error)
+    } else if (result.state === 'ok') {
+        args.push(result.value)
+    }
+    // eslint-disable-next-line no-console
+    console.debug(...args)
+}
+
+function now() {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now()
+}
@@ -0,0 +1,265 @@
+import {get, derived as svelteDerived, writable as svelteWritable} from 'svelte/store'
+
+import {abortError} from './abort'
+import {allSettled, derived, ReadableResult, ValidationError, writable} from './index'
+import {clearTimer, setTimer} from './scheduler'
+
+import type {Readable, Writable} from 'svelte/store'
+import type {Result, ValidationIssue, WritableResult} from './index'
+
+/** Error messages by field name. */
+export type FieldErrors<V> = {[K in keyof V]?: string}
+
+export interface FormOptions<V, R> {
+    /** Validate the values on every change, return the errors of the invalid fields. */
+    validate?: (values: V) => FieldErrors<V> | void
+    /**
+     * Validate the values with e.g. a request to a server, runs once changes have stopped for
+     * the `debounce` time and only if `validate` passes. Runs still in flight on the next change are aborted.
+     */
+    validateAsync?: (values: V, signal: AbortSignal) => Promise<FieldErrors<V> | void>
+    /** Milliseconds to wait for changes to stop before validating async, defaults to 300. */
+    debounce?: number
+    /**
+     * Submit the values, rejecting with a {@link ValidationError} puts its issues on the fields
+     * until they are changed.
+     */
+    submit: (values: V) => R | Promise<R>
+    /** Read field errors from other errors rejected by `submit`. */
+    fieldErrors?: (error: unknown) => FieldErrors<V> | void
+}
+
+/** A field of a form, can be bound to inputs with `bind:value={$field}`. */
+export interface FormField<T> extends Writable<T> {
+    /** True once the field has been touched, or the form submitted. */
+    touched: Readable<boolean>
+    /** True while the value differs from the initial value. */
+    dirty: Readable<boolean>
+    /**
+     * The value if valid or a ValidationError with the issues of the field, including those from
+     * the last submission. Flagged as loading while async validation runs, other errors thrown by
+     * `validateAsync` are passed on as is.
+     */
+    result: ReadableResult<T, ValidationError | Error>
+    /** Mark the field as touched, e.g. on blur. */
+    touch(): void
+}
+
+export interface Form<V, R> {
+    /** The values of all fields. */
+    values: WritableResult<V>
+    fields: {[K in keyof V]-?: FormField<V[K]>}
+    /**
+     * The values if every field is valid or a ValidationError with the issues of all fields,
+     * other errors thrown by `validateAsync` are passed on as is.
+     */
+    result: ReadableResult<V, ValidationError | Error>
+    /** True while any of the values differ from the initial values. */
+    dirty: Readable<boolean>
+    /** True while a submission is in flight. */
+    submitting: Readable<boolean>
+    /**
+     * Mark all fields as touched and submit the values once valid.
+     * @returns Store with the result of the submission, it errors with the ValidationError
+     *          without submitting if the values are invalid.
+     */
+    submit(): ReadableResult<R>
+    /** Reset the values and clear the touched fields and submission errors. */
+    reset(values?: V): void
+}
+
+/** Create a form with values, touched and dirty flags and validation results for each field. */
+export function form<V extends Record<string, any>, R = void>(
+    initialValues: V,
+    options: FormOptions<V, R>
+): Form<V, R> {
+    const {validate, validateAsync, debounce = 300} = options
+    const initial = svelteWritable(initialValues)
+    const values = writable<V>({value: initialValues})
+    const touched = svelteWritable<{[K in keyof V]?: boolean}>({})
+    const submitIssues = writable<ValidationIssue[]>({value: []})
+    const inFlight = svelteWritable(0)
+
+    const current = () => get(values).value as V
+
+    const validation = derived(
+        values,
+        (
+            value: V,
+            set: (value: V) => void,
+            error: (error: ValidationError) => void,
+            signal: AbortSignal
+        ): Promise<V> | void => {
+            const issues = toIssues(validate ? validate(value) : undefined)
+            if (issues.length > 0) {
+                error(new ValidationError(issues))
+            } else if (!validateAsync) {
+                set(value)
+            } else {
+                return sleep(debounce, signal)
+                    .then(() => validateAsync(value, signal))
+                    .then((errors) => {
+                        const issues = toIssues(errors)
+                        if (issues.length > 0) {
+                            throw new ValidationError(issues)
+                        }
+                        return value
+                    })
+            }
+        },
+        {staleWhileRevalidate: true}
+    )
+
+    const result = allSettled([validation, submitIssues], {staleWhileRevalidate: true}).map<
+        V,
+        ValidationError | Error
+    >((result) => {
+        if (result.state !== 'ok') {
+            return result
+        }
+        const [validated, submitted] = result.value
+        if (validated.state === 'err' && !(validated.error instanceof ValidationError)) {
+            return validated
+        }
+        const issues = [
+            ...(validated.state === 'err' ? validated.error.issues : []),
+            ...(submitted.value || []),
+        ]
+        if (issues.length > 0) {
+            return stale({state: 'err', error: new ValidationError(issues)}, result.loading)
+        }
+        return stale({state: 'ok', value: validated.value as V}, result.loading)
+    })
+
+    const field = <K extends keyof V>(key: K): FormField<V[K]> => {
+        const set = (value: V[K]) => {
+            values.updateValue((values) => ({...(values as V), [key]: value}))
+            // issues from the last submission are cleared once the field is changed
+            const issues = get(submitIssues).value || []
+            if (issues.some((issue) => issue.path[0] === key)) {
+                submitIssues.set({value: issues.filter((issue) => issue.path[0] !== key)})
+            }
+        }
+        return {
+            subscribe: svelteDerived(values.value, (values) => (values as V)[key]).subscribe,
+            set,
+            update: (updater) => {
+                set(updater(current()[key]))
+            },
+            touched: svelteDerived(touched, (touched) => touched[key] === true),
+            dirty: svelteDerived(
+                [values.value, initial],
+                ([values, initial]) => !Object.is((values as V)[key], initial[key])
+            ),
+            result: result.map<V[K], ValidationError | Error>((result) => {
+                if (result.state === 'ok') {
+                    return stale({state: 'ok', value: result.value[key]}, result.loading)
+                }
+                if (result.state === 'pending' || !(result.error instanceof ValidationError)) {
+                    return result
+                }
+                const issues = result.error.issues.filter((issue) => issue.path[0] === key)
+                if (issues.length > 0) {
+                    return stale({state: 'err', error: new ValidationError(issues)}, result.loading)
+                }
+                return stale({state: 'ok', value: current()[key]}, result.loading)
+            }),
+            touch: () => {
+                touched.update((touched) => ({...touched, [key]: true}))
+            },
+        }
+    }
+
+    const fields = {} as Form<V, R>['fields']
+    for (const key of Object.keys(initialValues) as Array<keyof V>) {
+        fields[key] = field(key)
+    }
+
+    return {
+        values,
+        fields,
+        result,
+        dirty: svelteDerived([values.value, initial], ([values, initial]) =>
+            Object.keys(initial).some((key) => !Object.is((values as V)[key], initial[key]))
+        ),
+        submitting: svelteDerived(inFlight, (count) => count > 0),
+        submit: () => {
+            const submission = writable<R>({})
+            const all: {[K in keyof V]?: boolean} = {}
+            Object.keys(initialValues).forEach((key: keyof V) => {
+                all[key] = true
+            })
+            touched.set(all)
+            inFlight.update((count) => count + 1)
+            validation
+                .toPromise()
+                .then((value) =>
+                    new Promise<R>((resolve) => resolve(options.submit(value))).catch((error) => {
+                        const issues = submitErrorIssues(error, options)
+                        if (issues.length > 0) {
+                            submitIssues.set({value: issues})
+                        }
+                        throw error
+                    })
+                )
+                .then(
+                    (value) => {
+                        submission.set({state: 'ok', value})
+                    },
+                    (error) => {
+                        submission.set({state: 'err', error})
+                    }
+                )
+                .then(() => {
+                    inFlight.update((count) => count - 1)
+                })
+            return new ReadableResult<R>({subscribe: submission.subscribe})
+        },
+        reset: (next = get(initial)) => {
+            initial.set(next)
+            touched.set({})
+            submitIssues.set({value: []})
+            values.set({value: next})
+        },
+    }
+}
+
+/** Flag the result as loading while the results it was made from are being revalidated. */
+function stale<T, E>(result: Result<T, E>, loading?: boolean): Result<T, E> {
+    return loading ? {...result, loading: true} : result
+}
+
+function submitErrorIssues<V>(error: unknown, options: FormOptions<V, any>): ValidationIssue[] {
+    if (error instanceof ValidationError) {
+        return error.issues
+    }
+    return options.fieldErrors ? toIssues(options.fieldErrors(error)) : []
+}
+
+function toIssues<V>(errors: FieldErrors<V> | void): ValidationIssue[] {
+    if (!errors) {
+        return []
+    }
+    return Object.keys(errors)
+        .filter((key) => errors[key] !== undefined)
+        .map((key) => ({path: [key], message: String(errors[key])}))
+}
+
+/** Wait for the given milliseconds, rejects and clears the timer when the signal is aborted. */
+function sleep(ms: number, signal: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal.aborted) {
+            reject(abortError())
+            return
+        }
+        const onAbort = () => {
+            clearTimer(timer)
+            reject(abortError())
+        }
+        const timer = setTimer(() => {
+            signal.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        signal.addEventListener('abort', onAbort)
+    })
+}
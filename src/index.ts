@@ -1,29 +1,216 @@
-import {
-    derived as svelteDerived,
-    readable as svelteReadable,
-    writable as svelteWritable,
-} from 'svelte/store'
+import {get, readable as svelteReadable, writable as svelteWritable} from 'svelte/store'
 
 import type {Readable, Writable} from 'svelte/store'
+import type {Schema, ValidationError} from './validation'
 
-export type Result<T> = {value?: T; error?: Error}
+import {abortError} from './abort'
+import {batch, rank, rankOf, schedule, unschedule} from './batch'
+import {link, trace} from './debug'
+import {watch} from './leaks'
+import {adopt, blame, caused, nameStore, pass, storeName} from './provenance'
+import {clearTimer, setTimer} from './scheduler'
+import {track} from './scope'
+import {parseWith} from './validation'
+
+export * from './query'
+export * from './interop'
+export * from './persisted'
+export * from './form'
+export * from './mutation'
+export * from './paginated'
+export {batch} from './batch'
+export {setScheduler} from './scheduler'
+export type {Scheduler} from './scheduler'
+export {createScope} from './scope'
+export {disableDebug, enableDebug} from './debug'
+export type {DebugNode, DebugOptions, Inspector, Transition} from './debug'
+export {errorProvenance, formatError} from './provenance'
+export type {ErrorProvenance} from './provenance'
+export {detectLeaks} from './leaks'
+export type {Leak, LeakDetector, LeakOptions} from './leaks'
+export {ValidationError} from './validation'
+export type {Schema, ValidationIssue} from './validation'
+export type {Scope, SerializedResult, Snapshot} from './scope'
+
+/**
+ * Result of a store, pending, resolved to a value (`ok`) or resolved to an error (`err`).
+ * Any value is a real value once the state is `ok`, including undefined.
+ * A resolved result flagged with `loading` is stale, a new result is being resolved.
+ * Pending results of stores that are retrying also carry the attempt number.
+ * The error type defaults to Error, errors thrown by callbacks are assumed to be of the error type.
+ */
+export type Result<T, E = Error> =
+    | {state: 'pending'; value?: undefined; error?: undefined; loading?: boolean; attempt?: number}
+    | {state: 'ok'; value: T; error?: undefined; loading?: boolean; attempt?: number}
+    | {state: 'err'; value?: undefined; error: E; loading?: boolean; attempt?: number}
+
+export type ResultState = Result<any, any>['state']
+
+/**
+ * Result as accepted by the stores, a result without a state is resolved to its error,
+ * or to its value if that is not undefined, and pending otherwise.
+ */
+export type ResultLike<T, E = Error> =
+    | Result<T, E>
+    | {state?: undefined; value?: T; error?: E; loading?: boolean; attempt?: number}
+
+/**
+ * Adds the state to a result without one, see {@link ResultLike}.
+ * Results that have a state are returned as is.
+ */
+export function toResult<T, E>(result: ResultLike<T, E>): Result<T, E> {
+    if (result.state !== undefined) {
+        return result
+    }
+    const {error, value, loading, attempt} = result
+    let rv: Result<T, E>
+    if (error !== undefined) {
+        rv = {state: 'err', error}
+    } else if (value !== undefined) {
+        rv = {state: 'ok', value}
+    } else {
+        rv = {state: 'pending'}
+    }
+    if (loading !== undefined) {
+        rv.loading = loading
+    }
+    if (attempt !== undefined) {
+        rv.attempt = attempt
+    }
+    return rv
+}
 
 type Subscriber<T> = (value: T) => void
 type Unsubscriber = () => void
 type Invalidator<T> = (value?: T) => void
-type Updater<T> = (value: T) => T
-type Stores = Readable<Result<any>> | [Readable<Result<any>>, ...Array<Readable<Result<any>>>]
-type StoresValues<T> = T extends Readable<Result<infer U>>
+type Refresher<T, E = any> = () => Promise<Result<T, E>>
+type RefreshableReadable<T, E> = Readable<ResultLike<T, E>> & {refresh?: Refresher<T, E>}
+type RefreshableWritable<T, E> = Writable<Result<T, E>> & {refresh?: Refresher<T, E>}
+type AnyStore = Readable<ResultLike<any, any>>
+type Stores = AnyStore | [AnyStore, ...Array<AnyStore>]
+type StoreValue<S> = S extends Readable<Result<infer U, any>>
+    ? U
+    : S extends Readable<{value?: infer U}>
     ? U
+    : never
+type StoreError<S> = S extends Readable<Result<any, infer E>>
+    ? E
+    : S extends Readable<{error?: infer E}>
+    ? E
+    : never
+type StoresValues<T> = T extends AnyStore
+    ? StoreValue<T>
     : {
-          [K in keyof T]: T[K] extends Readable<Result<infer U>> ? U : never
+          [K in keyof T]: StoreValue<T[K]>
       }
+type StoresErrors<T> = T extends AnyStore
+    ? StoreError<T>
+    : T extends any[]
+    ? {
+          [K in keyof T]: StoreError<T[K]>
+      }[number]
+    : never
+type StoresResults<T> = {
+    [K in keyof T]: Result<StoreValue<T[K]>, StoreError<T[K]>>
+}
+type ErrorClass = new (...args: any[]) => any
+
+declare global {
+    interface SymbolConstructor {
+        readonly observable: symbol
+    }
+}
+
+// same fallback as used by rxjs and redux when Symbol.observable isn't polyfilled
+const observableSymbol: symbol =
+    (typeof Symbol === 'function' && Symbol.observable) || ('@@observable' as any)
+
+export interface Observer<T, E = Error> {
+    next?: (value: T) => void
+    error?: (error: E) => void
+    complete?: () => void
+}
+
+export interface Subscription {
+    unsubscribe(): void
+}
+
+/** Anything with an observable style subscribe method, e.g. an rxjs Observable. */
+export interface Subscribable<T, E = Error> {
+    subscribe(observer: Observer<T, E>): Subscription | Unsubscriber
+}
+
+/** What `[Symbol.observable]()` returns, an observable that rxjs and others can convert. */
+export interface InteropObservable<T, E = Error> extends Subscribable<T, E> {
+    subscribe(observer: Observer<T, E> | ((value: T) => void)): Subscription
+    [Symbol.observable](): InteropObservable<T, E>
+}
+
+/** Error used when a store or promise didn't resolve in time. */
+export class TimeoutError extends Error {
+    constructor(readonly ms: number) {
+        super(`Timed out after ${ms}ms`)
+        this.name = 'TimeoutError'
+    }
+}
+
+export interface TimeoutOptions<F> {
+    /** Error, or function creating the error, used when timing out. Defaults to a TimeoutError. */
+    error?: F | (() => F)
+}
+
+export interface RateLimitOptions {
+    /** Also hold back errors, by default errors are passed on right away. */
+    delayErrors?: boolean
+}
+
+export interface PromiseOptions {
+    /** Reject with an AbortError when the signal is aborted. */
+    signal?: AbortSignal
+    /** Reject with a TimeoutError if the store hasn't settled after this many milliseconds. */
+    timeout?: number
+}
+
+/**
+ * Create a type guard matching errors that are instances of any of the given classes,
+ * for use with {@link ReadableResult.catch}.
+ */
+export function isError<C extends ErrorClass[]>(
+    ...classes: C
+): (error: unknown) => error is InstanceType<C[number]> {
+    return (error): error is InstanceType<C[number]> => classes.some((c) => error instanceof c)
+}
 
-export class ReadableResult<T> implements Readable<Result<T>> {
-    subscribe: (run: Subscriber<Result<T>>, invalidate?: Invalidator<Result<T>>) => Unsubscriber
+export class ReadableResult<T, E = Error> implements Readable<Result<T, E>> {
+    subscribe: (
+        run: Subscriber<Result<T, E>>,
+        invalidate?: Invalidator<Result<T, E>>
+    ) => Unsubscriber
+    private refresher?: Refresher<T, E>
+    private shared = new Map<string, Readable<any>>()
 
-    constructor(resultStore: Readable<Result<T>>) {
-        this.subscribe = resultStore.subscribe
+    constructor(resultStore: RefreshableReadable<T, E>) {
+        this.subscribe = (run, invalidate) =>
+            watch(this, () =>
+                resultStore.subscribe((result) => run(toResult(result)), invalidate as any)
+            )
+        this.refresher = resultStore.refresh
+        link(this, resultStore)
+        adopt(this, resultStore)
+        rank(this, [resultStore])
+    }
+
+    /**
+     * Re-run the start notifier (or derived callback) without tearing down subscribers,
+     * stores derived using the transform methods refresh the store they were derived from.
+     * @returns Promise resolving to the next settled result, or the current result if
+     *          the store can't be refreshed.
+     */
+    refresh(): Promise<Result<T, E>> {
+        if (this.refresher) {
+            return this.refresher()
+        }
+        return Promise.resolve(get(this))
     }
 
     /**
@@ -31,294 +218,1398 @@ export class ReadableResult<T> implements Readable<Result<T>> {
      * Can also be undefined for async stores while the value is being resolved.
      */
     get value(): Readable<T | undefined> {
-        return {
-            subscribe: (set) =>
-                this.subscribe((result) => {
-                    if (result.error === undefined) {
-                        set(result.value)
-                    }
-                }),
-        }
+        return this.memo<T | undefined>('value', (result, set) => {
+            if (result.state !== 'err') {
+                set(result.value)
+            }
+        })
     }
 
     /**
      * A store always containing a value when the result is resolved.
-     * @param value The value used in place of errors.
+     * @param guard Only handle errors matching the guard, see {@link isError}.
+     * @param handler Returns the value used in place of errors.
      */
-    catch(handler: (error: Error) => T | void): Readable<T | undefined> {
-        return {
-            subscribe: (set) =>
-                this.subscribe((result) => {
-                    if (result.error !== undefined) {
-                        const value = handler(result.error)
-                        if (value) {
-                            set(value)
-                        }
-                    } else if (result.value !== undefined) {
-                        set(result.value)
-                    }
-                }),
-        }
+    catch(handler: (error: E) => T | void): Readable<T | undefined>
+    catch<F extends E>(
+        guard: (error: E) => error is F,
+        handler: (error: F) => T | void
+    ): Readable<T | undefined>
+    catch(...args: any[]): Readable<T | undefined> {
+        const handler: (error: E) => T | undefined = args[args.length - 1]
+        const guard: (error: E) => boolean = args.length > 1 ? args[0] : () => true
+        return share(this, (result, set: (value: T | undefined) => void) => {
+            if (result.state === 'err') {
+                if (guard(result.error)) {
+                    set(handler(result.error))
+                }
+            } else if (result.state === 'ok') {
+                set(result.value)
+            }
+        })
     }
 
     /** Transform the results to a new ReadableResult store. */
-    map<V>(transform: (result: Result<T>) => Result<V>): ReadableResult<V> {
-        const store: Readable<Result<V>> = {
+    map<V, F = E>(transform: (result: Result<T, E>) => ResultLike<V, F>): ReadableResult<V, F> {
+        const store: Readable<Result<V, F>> = {
             subscribe: (set) =>
                 this.subscribe((result) => {
-                    if (result.error !== undefined || result.value !== undefined) {
-                        let newResult: Result<V> = {}
+                    if (result.state !== 'pending') {
+                        let newResult: Result<V, F>
                         try {
-                            newResult = transform(result)
+                            newResult = toResult(transform(result))
                         } catch (error) {
-                            newResult.error = error
+                            newResult = {state: 'err', error}
+                        }
+                        if (result.state === 'err' && newResult.state === 'err') {
+                            caused(newResult.error, result.error)
                         }
                         set(newResult)
                     }
                 }),
         }
-        return new ReadableResult(store)
+        return this.through(store, 'map')
     }
 
     /** Transform the result value to a new ReadableResult store. */
-    mapValue<V>(transform: (value: T) => V): ReadableResult<V> {
-        const store: Readable<Result<V>> = {
+    mapValue<V>(transform: (value: T) => V): ReadableResult<V, E> {
+        const store: Readable<Result<V, E>> = {
             subscribe: (set) =>
                 this.subscribe((result) => {
-                    if (result.value !== undefined) {
+                    if (result.state === 'ok') {
                         let value: V
                         try {
                             value = transform(result.value)
                         } catch (error) {
-                            set({error})
+                            set({state: 'err', error})
                             return
                         }
-                        set({value})
+                        set(
+                            result.loading
+                                ? {state: 'ok', value, loading: true}
+                                : {state: 'ok', value}
+                        )
+                    }
+                }),
+        }
+        return this.through(store, 'mapValue')
+    }
+
+    /** Transform the result errors to a new ReadableResult store. */
+    mapError<F>(transform: (error: E) => F): ReadableResult<T, F> {
+        const store: Readable<Result<T, F>> = {
+            subscribe: (set) =>
+                this.subscribe((result) => {
+                    if (result.state === 'err') {
+                        let error: F
+                        try {
+                            error = transform(result.error)
+                        } catch (err) {
+                            error = err
+                        }
+                        caused(error, result.error)
+                        set(
+                            result.loading
+                                ? {state: 'err', error, loading: true}
+                                : {state: 'err', error}
+                        )
+                    } else {
+                        set(result)
                     }
                 }),
         }
-        return new ReadableResult(store)
+        return this.through(store, 'mapError')
     }
 
     /** Transform the results to a new ReadableResult store by flattening the returned readable. */
-    flatMap<V extends Result<any>>(transform: (result: Result<T>) => Readable<V>) {
-        const store: Readable<Required<V>['value']> = {
+    flatMap<S extends AnyStore>(
+        transform: (result: Result<T, E>) => S,
+        options: DerivedOptions = {}
+    ): ReadableResult<StoreValue<S>, StoreError<S> | E> {
+        const store: Readable<Result<S, E>> = {
             subscribe: (set) =>
                 this.subscribe((result) => {
-                    if (result.error !== undefined || result.value !== undefined) {
-                        let value: Readable<V>
+                    if (result.state !== 'pending') {
+                        let value: S
                         try {
                             value = transform(result)
                         } catch (error) {
-                            set({error})
+                            set({state: 'err', error})
                             return
                         }
-                        set({value})
+                        set({state: 'ok', value})
                     }
                 }),
         }
-        return flatten(store)
+        return this.through(flattenStore(store, 10, options.strategy || 'switch'), 'flatMap')
     }
 
     /** Transform the result value to a new ReadableResult store by flattening the returned readable. */
-    flatMapValue<V extends Result<any>>(transform: (value: T) => Readable<V>) {
-        const store: Readable<Required<V>['value']> = {
+    flatMapValue<S extends AnyStore>(
+        transform: (value: T) => S,
+        options: DerivedOptions = {}
+    ): ReadableResult<StoreValue<S>, StoreError<S> | E> {
+        const store: Readable<Result<S, E>> = {
             subscribe: (set) =>
                 this.subscribe((result) => {
-                    if (result.value !== undefined) {
-                        let value: Readable<V>
+                    if (result.state === 'ok') {
+                        let value: S
                         try {
                             value = transform(result.value)
                         } catch (error) {
-                            set({error})
+                            set({state: 'err', error})
                             return
                         }
-                        set({value})
+                        set({state: 'ok', value})
                     }
                 }),
         }
-        return flatten(store)
+        return this.through(flattenStore(store, 10, options.strategy || 'switch'), 'flatMapValue')
     }
 
     /**
-     * A store containing the error or undefined.
+     * Turn the result into an error if it stays pending (or stale) for longer than the given
+     * milliseconds, the time starts over for every new pending result.
      */
-    get error(): Readable<Error | undefined> {
-        return {
+    timeout<F = TimeoutError>(
+        ms: number,
+        options: TimeoutOptions<F> = {}
+    ): ReadableResult<T, E | F> {
+        const {error} = options
+        const timeoutError = (): F => {
+            if (error === undefined) {
+                return new TimeoutError(ms) as any
+            }
+            return error instanceof Function ? error() : error
+        }
+        const store: Readable<Result<T, E | F>> = {
+            subscribe: (set) => {
+                let timer: any
+                const unsubscribe = this.subscribe((result) => {
+                    clearTimer(timer)
+                    if (!isSettled(result)) {
+                        timer = setTimer(() => {
+                            set({state: 'err', error: timeoutError()})
+                        }, ms)
+                    }
+                    set(result)
+                })
+                return () => {
+                    clearTimer(timer)
+                    unsubscribe()
+                }
+            },
+        }
+        return this.through(store, 'timeout')
+    }
+
+    /**
+     * Pass on values once they haven't changed for the given milliseconds, the first result
+     * is passed on right away. Pending results and errors are not delayed, see {@link RateLimitOptions}.
+     */
+    debounce(ms: number, options: RateLimitOptions = {}): ReadableResult<T, E> {
+        const store: Readable<Result<T, E>> = {
+            subscribe: (set) => {
+                let timer: any
+                let first = true
+                const unsubscribe = this.subscribe((result) => {
+                    clearTimer(timer)
+                    if (first || !isDelayed(result, options)) {
+                        first = false
+                        set(result)
+                    } else {
+                        timer = setTimer(() => {
+                            set(result)
+                        }, ms)
+                    }
+                })
+                return () => {
+                    clearTimer(timer)
+                    unsubscribe()
+                }
+            },
+        }
+        return this.through(store, 'debounce')
+    }
+
+    /**
+     * Pass on at most one value every given milliseconds, the latest value is passed on at the
+     * end of the interval. Pending results and errors are not delayed, see {@link RateLimitOptions}.
+     */
+    throttle(ms: number, options: RateLimitOptions = {}): ReadableResult<T, E> {
+        const store: Readable<Result<T, E>> = {
+            subscribe: (set) => {
+                let timer: any
+                let trailing: Result<T, E> | undefined
+                const release = () => {
+                    if (trailing) {
+                        set(trailing)
+                        trailing = undefined
+                        timer = setTimer(release, ms)
+                    } else {
+                        timer = undefined
+                    }
+                }
+                const unsubscribe = this.subscribe((result) => {
+                    if (!isDelayed(result, options)) {
+                        trailing = undefined
+                        set(result)
+                    } else if (timer === undefined) {
+                        set(result)
+                        timer = setTimer(release, ms)
+                    } else {
+                        trailing = result
+                    }
+                })
+                return () => {
+                    clearTimer(timer)
+                    unsubscribe()
+                }
+            },
+        }
+        return this.through(store, 'throttle')
+    }
+
+    /**
+     * Skip results that are the same as the previous one.
+     * @param equals Used to compare values, defaults to Object.is.
+     */
+    distinct(equals: (a: T, b: T) => boolean = Object.is): ReadableResult<T, E> {
+        const store: Readable<Result<T, E>> = {
+            subscribe: (set) => {
+                let last: Result<T, E> | undefined
+                return this.subscribe((result) => {
+                    if (!last || !isSameResult(last, result, equals)) {
+                        last = result
+                        set(result)
+                    }
+                })
+            },
+        }
+        return this.through(store, 'distinct')
+    }
+
+    /** Parse values with the schema, invalid values turn into a {@link ValidationError}. */
+    validate<V>(schema: Schema<V>): ReadableResult<V, E | ValidationError> {
+        const store: Readable<Result<V, E | ValidationError>> = {
             subscribe: (set) =>
                 this.subscribe((result) => {
-                    if (result.error !== undefined) {
-                        set(result.error)
+                    if (result.state !== 'ok') {
+                        set(result)
+                        return
+                    }
+                    let value: V
+                    try {
+                        value = parseWith(schema, result.value)
+                    } catch (error) {
+                        set({state: 'err', error})
+                        return
                     }
+                    set(result.loading ? {state: 'ok', value, loading: true} : {state: 'ok', value})
                 }),
         }
+        return this.through(store, 'validate')
+    }
+
+    /** Wrap a store derived from this one, refreshing it refreshes this store. */
+    private through<V, F>(store: Readable<Result<V, F>>, kind: string): ReadableResult<V, F> {
+        const traced: RefreshableReadable<V, F> = trace(
+            {
+                subscribe: (run, invalidate) =>
+                    store.subscribe((result) => {
+                        if (result.state === 'err') {
+                            pass(result.error, this, traced)
+                        }
+                        run(result)
+                    }, invalidate),
+                refresh: () => refreshThrough(store, () => this.refresh()),
+            },
+            kind,
+            [this]
+        )
+        nameStore(traced, storeName(kind, undefined, this))
+        rank(traced, [this])
+        return new ReadableResult(traced)
+    }
+
+    /**
+     * A store containing the error or undefined.
+     */
+    get error(): Readable<E | undefined> {
+        return this.memo<E | undefined>('error', (result, set) => {
+            if (result.state === 'err') {
+                set(result.error)
+            }
+        })
     }
 
     /**
      * A store containing true if the readable has a result (a value or error), false otherwise.
      */
     get resolved(): Readable<boolean> {
-        return {
-            subscribe: (set) =>
-                this.subscribe((result) => {
-                    set(result.error !== undefined || result.value !== undefined)
-                }),
-        }
+        return this.memo<boolean>('resolved', (result, set) => {
+            set(result.state !== 'pending')
+        })
+    }
+
+    /**
+     * A store containing true while the result is pending, either unresolved or
+     * being revalidated with a stale value or error.
+     */
+    get loading(): Readable<boolean> {
+        return this.memo<boolean>('loading', (result, set) => {
+            set(result.loading === true || result.state === 'pending')
+        })
     }
 
     /**
-     * A promise that resolves or rejects on the first value or error.
+     * A promise that resolves or rejects on the first value or error that is not stale.
+     * Same as calling {@link toPromise} without options.
      */
     get promise(): Promise<T> {
+        return this.toPromise()
+    }
+
+    /**
+     * Like {@link promise} but unsubscribes as soon as it settles and can be given a deadline
+     * and an abort signal.
+     */
+    toPromise(options: PromiseOptions = {}): Promise<T> {
+        const {signal, timeout} = options
         return new Promise((resolve, reject) => {
-            const done = this.subscribe((result) => {
-                if (result.error !== undefined) {
-                    reject(result.error)
-                } else if (result.value !== undefined) {
-                    resolve(result.value)
+            if (signal && signal.aborted) {
+                reject(abortError())
+                return
+            }
+            let done = false
+            let unsubscribe: Unsubscriber | undefined
+            let timer: any
+            const onAbort = () => {
+                finish()
+                reject(abortError())
+            }
+            const finish = () => {
+                done = true
+                clearTimer(timer)
+                if (signal) {
+                    signal.removeEventListener('abort', onAbort)
                 }
-                if (result.error !== undefined || result.value !== undefined) {
-                    setTimeout(() => {
-                        done()
-                    }, 0)
+                if (unsubscribe) {
+                    unsubscribe()
+                }
+            }
+            if (signal) {
+                signal.addEventListener('abort', onAbort)
+            }
+            if (timeout !== undefined) {
+                timer = setTimer(() => {
+                    finish()
+                    reject(new TimeoutError(timeout))
+                }, timeout)
+            }
+            const unsub = this.subscribe((result) => {
+                if (done || !isSettled(result)) {
+                    return
+                }
+                finish()
+                if (result.state === 'err') {
+                    reject(result.error)
+                } else {
+                    resolve(result.value as T)
                 }
             })
+            if (done) {
+                unsub()
+            } else {
+                unsubscribe = unsub
+            }
         })
     }
+
+    /** Shorthand for {@link toPromise} with a timeout. */
+    promiseWithin(ms: number): Promise<T> {
+        return this.toPromise({timeout: ms})
+    }
+
+    /** Create the store for a getter once, see {@link share}. */
+    private memo<V>(key: string, fn: ShareFn<T, E, V>): Readable<V> {
+        let store = this.shared.get(key)
+        if (!store) {
+            store = share(this, fn)
+            this.shared.set(key, store)
+        }
+        return store
+    }
+
+    /**
+     * Iterate over the values that are not stale, values set while the consumer is busy
+     * are conflated to the latest one. Throws and stops iterating when the store errors.
+     */
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return iterate(this)
+    }
+
+    /**
+     * Observable interop, e.g. for rxjs's `from()`. Observers get the values that are not stale,
+     * the subscription ends with a call to `error` when the store errors.
+     */
+    declare [Symbol.observable]: () => InteropObservable<T, E>;
+
+    // implements the above, also without a Symbol.observable polyfill
+    [observableSymbol](): InteropObservable<T, E> {
+        const observable = {
+            subscribe: (observer: Observer<T, E> | ((value: T) => void)) =>
+                observe(this, typeof observer === 'function' ? {next: observer} : observer),
+            [observableSymbol]: () => observable,
+        }
+        return observable
+    }
 }
 
-export class WritableResult<T> extends ReadableResult<T> implements Writable<Result<T>> {
-    set: (value: Result<T>) => void
-    update: (updater: Updater<Result<T>>) => void
+export class WritableResult<T, E = Error>
+    extends ReadableResult<T, E>
+    implements Writable<Result<T, E>>
+{
+    set: (value: ResultLike<T, E>) => void
+    update: (updater: (result: Result<T, E>) => ResultLike<T, E>) => void
+    private resultStore: RefreshableWritable<T, E>
+    private optimisticBase: Result<T, E> = {state: 'pending'}
+    private optimisticUpdates: Array<(value: T | undefined) => T> = []
+    /** Bumped when the store is set while updates are being committed. */
+    private optimisticVersion = 0
+    private commitErrors = svelteWritable<E | undefined>(undefined)
 
-    constructor(resultStore: Writable<Result<T>>) {
+    constructor(resultStore: RefreshableWritable<T, E>) {
         super(resultStore)
-        this.set = resultStore.set
-        this.update = resultStore.update
+        this.resultStore = resultStore
+        this.set = (value) => {
+            resultStore.set(toResult(value))
+            this.supersede()
+        }
+        this.update = (updater) => {
+            resultStore.update((result) => toResult(updater(result)))
+            this.supersede()
+        }
+    }
+
+    updateValue(updater: (value: T | undefined) => T) {
+        this.update((result) => ({state: 'ok', value: updater(result.value)}))
+    }
+
+    /**
+     * A store containing the error of the last optimistic update that failed to commit,
+     * cleared when one is committed.
+     */
+    get commitError(): Readable<E | undefined> {
+        return {subscribe: this.commitErrors.subscribe}
+    }
+
+    /**
+     * Show the updated value right away while it is being committed. The store settles to the
+     * value the commit resolves to or rolls back if it fails, the error is put in {@link commitError}.
+     * Updates that are still being committed when another one settles are re-applied on top of
+     * the settled value. Setting the store while updates are being committed replaces them,
+     * the store is left as is when they settle.
+     * @returns Promise resolving to the committed value, rejects with the commit error after rolling back.
+     */
+    optimistic(updater: (value: T | undefined) => T, commit: (value: T) => Promise<T>): Promise<T> {
+        // wrapped so that the same updater can be used for overlapping updates
+        const update = (value: T | undefined) => updater(value)
+        let value!: T
+        this.resultStore.update((current) => {
+            if (this.optimisticUpdates.length === 0) {
+                this.optimisticBase = current
+            }
+            value = updater(current.value)
+            return {state: 'ok', value}
+        })
+        this.optimisticUpdates.push(update)
+        const version = this.optimisticVersion
+        const settle = () => {
+            if (version !== this.optimisticVersion) {
+                return
+            }
+            this.optimisticUpdates = this.optimisticUpdates.filter((u) => u !== update)
+            this.resultStore.set(
+                this.optimisticUpdates.reduce<Result<T, E>>(
+                    (result, u) => ({state: 'ok', value: u(result.value)}),
+                    this.optimisticBase
+                )
+            )
+        }
+        return new Promise<T>((resolve) => resolve(commit(value))).then(
+            (confirmed) => {
+                if (version === this.optimisticVersion) {
+                    this.optimisticBase = {state: 'ok', value: confirmed}
+                }
+                this.commitErrors.set(undefined)
+                settle()
+                return confirmed
+            },
+            (error) => {
+                this.commitErrors.set(error)
+                settle()
+                throw error
+            }
+        )
     }
 
-    updateValue(updater: Updater<T | undefined>) {
-        this.update((result) => ({value: updater(result.value)}))
+    /** Drop the updates being committed, the store was set to a newer result. */
+    private supersede() {
+        if (this.optimisticUpdates.length > 0) {
+            this.optimisticUpdates = []
+            this.optimisticVersion++
+        }
     }
 }
 
-type StartStopNotifier<T> = (
+type StartStopNotifier<T, E = Error> = (
     set: Subscriber<T>,
-    error: Subscriber<Error>
+    error: Subscriber<E>,
+    signal: AbortSignal
 ) => Unsubscriber | Promise<T | void> | void
 
+/** Policy used to retry failing start notifiers and derived callbacks. */
+export interface RetryPolicy<E = Error> {
+    /** Maximum number of attempts, including the first one. Defaults to 3. */
+    attempts?: number
+    /** Milliseconds to wait before the first retry, doubled for each attempt after that. Defaults to 1000. */
+    delay?: number
+    /** Upper bound for the delay in milliseconds. Defaults to 30000. */
+    maxDelay?: number
+    /** Fraction of the delay that is randomized, 0 to disable. Defaults to 0.5. */
+    jitter?: number
+    /** Called with the error and the failed attempt number, return false to give up. */
+    shouldRetry?: (error: E, attempt: number) => boolean
+}
+
+export interface StoreOptions<E = Error> {
+    /**
+     * Keep the previous value or error visible, flagged as loading, while a new async run is in
+     * flight instead of going back to unresolved. Defaults to false.
+     */
+    staleWhileRevalidate?: boolean
+    /** Retry the start notifier (or derived callback) when it fails, disabled by default. */
+    retry?: RetryPolicy<E>
+    /** Tags used to refresh the store together with others, see {@link invalidate}. */
+    tags?: string[]
+    /** Name shown in debug tracing, see {@link enableDebug}. */
+    name?: string
+    /**
+     * Key of the store in a scope snapshot, see {@link createScope}.
+     * Defaults to the order the store was created in within the scope.
+     */
+    key?: string
+}
+
+export interface WritableOptions<T, E = Error> extends StoreOptions<E> {
+    /**
+     * Schema the values are parsed with, setting an invalid value throws a {@link ValidationError}
+     * and leaves the store as is. Invalid values from the start notifier result in the error.
+     */
+    schema?: Schema<T>
+}
+
 /**
  * Like svelte/store's readable but initial value is optional and start notifier can be async and throw.
+ * The start notifier is passed an AbortSignal that is aborted when the last subscriber unsubscribes,
+ * results set after that are dropped.
  */
-export function readable<T>(initial: Result<T>): ReadableResult<T>
-export function readable<T>(start: StartStopNotifier<T>): ReadableResult<T>
-export function readable<T>(initial: Result<T>, start: StartStopNotifier<T>): ReadableResult<T>
-export function readable<T>(...args: any[]): ReadableResult<T> {
-    return new ReadableResult(internalWritable(...args))
+export function readable<T, E = Error>(initial: ResultLike<T, E>): ReadableResult<T, E>
+export function readable<T, E = Error>(
+    start: StartStopNotifier<T, E>,
+    options?: StoreOptions<E>
+): ReadableResult<T, E>
+export function readable<T, E = Error>(
+    initial: ResultLike<T, E>,
+    start: StartStopNotifier<T, E>,
+    options?: StoreOptions<E>
+): ReadableResult<T, E>
+export function readable<T, E = Error>(...args: any[]): ReadableResult<T, E> {
+    return new ReadableResult(internalWritable('readable', args))
 }
 
 /**
  * Like svelte/store's writable but initial value is optional and start notifier can be async and throw.
  */
-export function writable<T>(initial: Result<T>): WritableResult<T>
-export function writable<T>(start: StartStopNotifier<T>): WritableResult<T>
-export function writable<T>(initial: Result<T>, start: StartStopNotifier<T>): WritableResult<T>
-export function writable<T>(...args: any[]): WritableResult<T> {
-    return new WritableResult(internalWritable(...args))
+export function writable<T, E = Error>(
+    initial: ResultLike<T, E>,
+    options?: WritableOptions<T, E>
+): WritableResult<T, E>
+export function writable<T, E = Error>(
+    start: StartStopNotifier<T, E>,
+    options?: WritableOptions<T, E>
+): WritableResult<T, E>
+export function writable<T, E = Error>(
+    initial: ResultLike<T, E>,
+    start: StartStopNotifier<T, E>,
+    options?: WritableOptions<T, E>
+): WritableResult<T, E>
+export function writable<T, E = Error>(...args: any[]): WritableResult<T, E> {
+    return new WritableResult(internalWritable('writable', args))
 }
 
 /**
- * Like svelte/store's derived but acts only when all results have resolved to a value.
+ * How overlapping runs are handled when the inputs change while an async run is still in flight.
+ *  - `switch`: abort the in-flight run and start a new one, only the latest run sets the result.
+ *  - `concat`: queue the new inputs and run them in order once the in-flight run has settled.
+ *  - `exhaust`: ignore new inputs until the in-flight run has settled.
  */
-export function derived<S extends Stores, T>(
+export type Strategy = 'switch' | 'concat' | 'exhaust'
+
+export interface DerivedOptions<E = Error> extends StoreOptions<E> {
+    /** How overlapping async runs are handled, defaults to `switch`. */
+    strategy?: Strategy
+}
+
+/**
+ * Like svelte/store's derived but acts only when all results have resolved to a value,
+ * stale (loading) inputs are treated as unresolved.
+ * The callback is passed an AbortSignal as its last argument that is aborted when the run is
+ * superseded (see {@link Strategy}) or the last subscriber unsubscribes, results set after that are dropped.
+ * The error type defaults to the error types of the inputs.
+ */
+export function derived<S extends Stores, T, E = StoresErrors<S>>(
+    stores: S,
+    fn: (
+        values: StoresValues<S>,
+        set: (value: T) => void,
+        error: (error: E) => void,
+        signal: AbortSignal
+    ) => Promise<T> | void,
+    options?: DerivedOptions<E>
+): ReadableResult<T, E>
+export function derived<S extends Stores, T, E = StoresErrors<S>>(
     stores: S,
-    fn: (values: StoresValues<S>) => Promise<T>
-): ReadableResult<T>
-export function derived<S extends Stores, T>(
+    fn: (values: StoresValues<S>) => T,
+    options?: DerivedOptions<E>
+): ReadableResult<T, E>
+export function derived<S extends Stores, T, E = StoresErrors<S>>(
     stores: S,
-    fn: (values: StoresValues<S>) => T
-): ReadableResult<T>
-export function derived<S extends Stores, T>(
+    fn: (
+        values: StoresValues<S>,
+        set: (value: T) => void,
+        error: (error: E) => void,
+        signal: AbortSignal
+    ) => Unsubscriber | void,
+    options?: DerivedOptions<E>
+): ReadableResult<T, E>
+export function derived<S extends Stores, T, E = StoresErrors<S>>(
     stores: S,
-    fn: (values: StoresValues<S>, set: (value: T) => void, error: (error: Error) => void) => void
-): ReadableResult<T>
-export function derived<S extends Stores, T>(stores: S, fn: any): ReadableResult<T> {
+    fn: any,
+    options: DerivedOptions<E> = {}
+): ReadableResult<T, E> {
     const single = !Array.isArray(stores)
+    const inputs: AnyStore[] = single ? [stores as any] : (stores as any)
     const auto = fn.length < 2
-    const store = svelteDerived<S, Result<T>>(stores, (storeValues, set) => {
-        const results = single
-            ? [storeValues as StoresValues<S>]
-            : (storeValues as StoresValues<S>[])
-        const error = results.find((r) => r.error !== undefined)
-        if (error) {
-            set(error)
-        } else {
+    const strategy = options.strategy || 'switch'
+    // a hydrated result is used instead of the first run
+    let hydrated: Result<T, E> | undefined = track(
+        {subscribe: (run) => store.subscribe(run)},
+        options.key
+    )
+    let last: Result<T, E> = hydrated || {state: 'pending'}
+    const store = svelteReadable<Result<T, E>>(last, (setLast) => {
+        const set = (result: Result<T, E>) => {
+            if (result.state === 'err') {
+                blame(result.error, traced)
+            }
+            last = result
+            batch(() => setLast(result))
+            control.settle(result)
+        }
+        const results: Result<any, any>[] = []
+        let inited = false
+        let pending = 0
+        let generation = 0
+        let busy = false
+        let queue: any[][] = []
+        let abort = noop
+        const cancel = () => {
+            abort()
+            abort = noop
+            busy = false
+            queue = []
+        }
+        const run = (values: any[], attempt = 1) => {
+            abort()
+            const id = ++generation
+            const controller = new AbortController()
+            const signal = controller.signal
+            const active = () => id === generation && !signal.aborted
+            const setResult = (result: Result<T, E>) => {
+                if (active()) {
+                    set(result)
+                }
+            }
+            let cleanup: Unsubscriber | void
+            let timer: any
+            abort = () => {
+                clearTimer(timer)
+                controller.abort()
+                if (cleanup) {
+                    cleanup()
+                }
+            }
+            const fail = (error: E) => {
+                if (!active()) {
+                    return
+                }
+                if (options.retry && canRetry(options.retry, error, attempt)) {
+                    abort()
+                    abort = () => {
+                        clearTimer(timer)
+                    }
+                    busy = true
+                    set(pendingResult(last, options, attempt + 1))
+                    timer = setTimer(() => {
+                        run(values, attempt + 1)
+                    }, retryDelay(options.retry, attempt))
+                } else {
+                    set({state: 'err', error})
+                }
+            }
+            const done = () => {
+                if (active()) {
+                    busy = false
+                    const next = queue.shift()
+                    if (next) {
+                        run(next)
+                    }
+                }
+            }
+            try {
+                const rv = fn(
+                    single ? values[0] : values,
+                    (value) => {
+                        setResult({state: 'ok', value})
+                    },
+                    fail,
+                    signal
+                )
+                if (rv instanceof Promise) {
+                    busy = true
+                    if (options.staleWhileRevalidate && isSettled(last)) {
+                        set({...last, loading: true})
+                    }
+                    rv.then((value) => {
+                        setResult({state: 'ok', value})
+                    })
+                        .catch(fail)
+                        .then(done)
+                    return
+                } else if (auto) {
+                    setResult({state: 'ok', value: rv as T})
+                } else if (signal.aborted) {
+                    if (rv) {
+                        rv()
+                    }
+                } else {
+                    cleanup = rv as Unsubscriber | void
+                }
+            } catch (error) {
+                fail(error)
+            }
+            done()
+        }
+        const sync = () => {
+            if (pending) {
+                return
+            }
+            const failed = results.findIndex((r) => r.state === 'err' && !r.loading)
+            if (failed !== -1) {
+                cancel()
+                pass(results[failed].error, inputs[failed], traced)
+                set(results[failed])
+                return
+            }
+            if (!results.every(isSettled)) {
+                cancel()
+                if (options.staleWhileRevalidate && isResolved(last)) {
+                    if (!last.loading) {
+                        set({...last, loading: true})
+                    }
+                } else {
+                    set({state: 'pending'})
+                }
+                return
+            }
             const values = results.map((r) => r.value)
-            if (values.every((v) => v !== undefined)) {
-                try {
-                    const rv = fn(
-                        single ? values[0] : values,
-                        (value) => {
-                            set({value})
-                        },
-                        (error) => {
-                            set({error})
-                        }
-                    )
-                    if (rv instanceof Promise) {
-                        rv.then((value) => {
-                            set({value})
-                        }).catch((error) => {
-                            set({error})
-                        })
-                    } else if (auto) {
-                        set({value: rv as T})
-                    } else {
-                        return rv as Unsubscriber | void
+            if (busy && strategy === 'concat') {
+                queue.push(values)
+            } else if (!busy || strategy === 'switch') {
+                run(values)
+            }
+        }
+        // runs once all inputs changed by the same update have been set
+        const job = {rank: rankOf(traced), run: sync}
+        const unsubscribers = inputs.map((input, i) =>
+            input.subscribe(
+                (result) => {
+                    results[i] = toResult(result)
+                    pending &= ~(1 << i)
+                    if (inited) {
+                        schedule(job)
                     }
-                } catch (error) {
-                    set({error})
+                },
+                () => {
+                    pending |= 1 << i
+                }
+            )
+        )
+        inited = true
+        if (hydrated) {
+            hydrated = undefined
+        } else {
+            sync()
+        }
+        const stopped = control.start(sync, options.tags)
+        return () => {
+            stopped()
+            unschedule(job)
+            unsubscribers.forEach((unsubscribe) => unsubscribe())
+            cancel()
+        }
+    })
+    const control = refreshControl(store)
+    const traced = trace(
+        {subscribe: store.subscribe, refresh: control.refresh},
+        'derived',
+        inputs,
+        options.name
+    )
+    nameStore(traced, storeName('derived', options.name))
+    rank(traced, inputs)
+    return new ReadableResult(traced)
+}
+
+export interface CombineOptions {
+    /**
+     * Keep the previous result visible, flagged as loading, while the inputs are being
+     * resolved again instead of going back to unresolved. Defaults to false.
+     */
+    staleWhileRevalidate?: boolean
+    /** Name shown in debug tracing, see {@link enableDebug}. */
+    name?: string
+}
+
+/**
+ * Combine the results of all stores, resolves to the list of results once every store has settled.
+ * Errors are passed along in the list and never short-circuit.
+ */
+export function allSettled<S extends AnyStore[]>(
+    stores: [...S],
+    options: CombineOptions = {}
+): ReadableResult<StoresResults<S>, never> {
+    return combine<StoresResults<S>, never>('allSettled', stores, options, (results) => {
+        if (!results.every(isSettled)) {
+            return {state: 'pending'}
+        }
+        return {
+            state: 'ok',
+            value: results.map((r) => settledResult(r)) as StoresResults<S>,
+        }
+    })
+}
+
+/**
+ * Resolves to the value of the store that resolved to a value first, errors with an
+ * AggregateError of all errors if every store fails.
+ */
+export function any<S extends AnyStore[]>(
+    stores: [...S],
+    options: CombineOptions = {}
+): ReadableResult<StoresValues<S>[number], AggregateError> {
+    return combine<StoresValues<S>[number], AggregateError>(
+        'any',
+        stores,
+        options,
+        (results, order) => {
+            const first = firstSettled(results, order, (r) => r.state === 'ok')
+            if (first) {
+                return {state: 'ok', value: first.value}
+            }
+            if (results.every((r) => isSettled(r) && r.state === 'err')) {
+                const errors = results.map((r) => r.error)
+                return {state: 'err', error: new AggregateError(errors, 'All stores failed')}
+            }
+            return {state: 'pending'}
+        }
+    )
+}
+
+/** Resolves to the result of the store that settled first, be it a value or an error. */
+export function race<S extends AnyStore[]>(
+    stores: [...S],
+    options: CombineOptions = {}
+): ReadableResult<StoresValues<S>[number], StoresErrors<S>> {
+    return combine('race', stores, options, (results, order) => {
+        const first = firstSettled(results, order, () => true)
+        if (first) {
+            return settledResult(first)
+        }
+        return {state: 'pending'}
+    })
+}
+
+/**
+ * Like {@link derived} with an identity callback but waits for every store to settle and
+ * errors with an AggregateError of all errors instead of only the first one.
+ */
+export function combineErrors<S extends AnyStore[]>(
+    stores: [...S],
+    options: CombineOptions = {}
+): ReadableResult<StoresValues<S>, AggregateError> {
+    return combine<StoresValues<S>, AggregateError>('combineErrors', stores, options, (results) => {
+        if (!results.every(isSettled)) {
+            return {state: 'pending'}
+        }
+        const errors = results.filter((r) => r.state === 'err').map((r) => r.error)
+        if (errors.length > 0) {
+            return {
+                state: 'err',
+                error: new AggregateError(
+                    errors,
+                    `${errors.length} of ${results.length} stores failed`
+                ),
+            }
+        }
+        return {state: 'ok', value: results.map((r) => r.value) as StoresValues<S>}
+    })
+}
+
+/**
+ * Subscribes to all stores and computes the result from their latest results, glitch free.
+ * The order passed along is a sequence number of when each store settled, Infinity if it hasn't.
+ */
+function combine<T, E>(
+    kind: string,
+    inputs: AnyStore[],
+    options: CombineOptions,
+    fn: (results: Result<any, any>[], order: number[]) => Result<T, E>
+): ReadableResult<T, E> {
+    let last: Result<T, E> = {state: 'pending'}
+    const store = svelteReadable<Result<T, E>>(last, (setLast) => {
+        const set = (result: Result<T, E>) => {
+            if (result.state === 'err') {
+                blame(result.error, traced)
+            }
+            last = result
+            batch(() => setLast(result))
+        }
+        const results: Result<any, any>[] = inputs.map(() => ({state: 'pending'}))
+        const order: number[] = inputs.map(() => Infinity)
+        let sequence = 0
+        let inited = false
+        let pending = 0
+        const sync = () => {
+            if (pending) {
+                return
+            }
+            const result = fn(results, order)
+            if (isResolved(result)) {
+                set(result)
+            } else if (options.staleWhileRevalidate && isResolved(last)) {
+                if (!last.loading) {
+                    set({...last, loading: true})
                 }
             } else {
-                set({})
+                set(result)
             }
         }
+        const job = {rank: rankOf(traced), run: sync}
+        const unsubscribers = inputs.map((input, i) =>
+            input.subscribe(
+                (input) => {
+                    const result = toResult(input)
+                    if (!isSettled(result)) {
+                        order[i] = Infinity
+                    } else if (order[i] === Infinity) {
+                        order[i] = ++sequence
+                    }
+                    results[i] = result
+                    pending &= ~(1 << i)
+                    if (inited) {
+                        schedule(job)
+                    }
+                },
+                () => {
+                    pending |= 1 << i
+                }
+            )
+        )
+        inited = true
+        sync()
+        return () => {
+            unschedule(job)
+            unsubscribers.forEach((unsubscribe) => unsubscribe())
+        }
+    })
+    const refresh = () =>
+        refreshThrough(store, () =>
+            Promise.all(
+                inputs.map((input) => (input instanceof ReadableResult ? input.refresh() : null))
+            )
+        )
+    const traced = trace({subscribe: store.subscribe, refresh}, kind, inputs, options.name)
+    nameStore(traced, storeName(kind, options.name))
+    rank(traced, inputs)
+    return new ReadableResult(traced)
+}
+
+function firstSettled(
+    results: Result<any, any>[],
+    order: number[],
+    filter: (result: Result<any, any>) => boolean
+): Result<any, any> | undefined {
+    let first: number | undefined
+    results.forEach((result, i) => {
+        if (
+            order[i] !== Infinity &&
+            filter(result) &&
+            (first === undefined || order[i] < order[first])
+        ) {
+            first = i
+        }
     })
-    return new ReadableResult(store)
+    return first !== undefined ? results[first] : undefined
+}
+
+export interface PollOptions extends Omit<StoreOptions, 'retry'> {
+    /** Milliseconds between polls. */
+    interval: number
+    /** Stop polling while the result is an error, a refresh or the trigger resumes polling. */
+    pauseWhileErrored?: boolean
+    /** Double the interval for every consecutive error. */
+    backoffOnError?: boolean
+    /** Upper bound for the interval when backing off, defaults to 16 times the interval. */
+    maxInterval?: number
+    /** Store that triggers a poll right away every time it changes. */
+    trigger?: Readable<any>
+}
+
+/**
+ * Create a store that runs the given function every interval while it has subscribers.
+ * Ticks are skipped while the previous run is still in flight, use refresh() to poll right away.
+ */
+export function poll<T, E = Error>(
+    fn: (signal: AbortSignal) => T | Promise<T>,
+    options: PollOptions
+): ReadableResult<T, E> {
+    const {interval, pauseWhileErrored, backoffOnError, trigger, ...storeOptions} = options
+    const maxInterval = options.maxInterval || interval * 16
+    return readable<T, E>((set, error, signal) => {
+        let timer: any
+        let running = false
+        let errors = 0
+        const schedule = (delay: number) => {
+            clearTimer(timer)
+            timer = setTimer(tick, delay)
+        }
+        const tick = async () => {
+            schedule(interval)
+            if (running) {
+                return
+            }
+            running = true
+            try {
+                const value = await fn(signal)
+                errors = 0
+                set(value)
+            } catch (err) {
+                errors++
+                error(err)
+                if (pauseWhileErrored) {
+                    clearTimer(timer)
+                } else if (backoffOnError) {
+                    schedule(Math.min(interval * Math.pow(2, errors), maxInterval))
+                }
+            }
+            running = false
+            if (signal.aborted) {
+                clearTimer(timer)
+            }
+        }
+        let first = true
+        const unsubscribe = trigger
+            ? trigger.subscribe(() => {
+                  if (!first) {
+                      tick()
+                  }
+              })
+            : noop
+        first = false
+        tick()
+        return () => {
+            unsubscribe()
+            clearTimer(timer)
+        }
+    }, storeOptions)
 }
 
 type FlatReadableResult<R, D extends number> = {
     done: R
-    recur: R extends ReadableResult<infer Inner>
+    recur: R extends ReadableResult<infer Inner, any>
         ? FlatReadableResult<Inner, [-1, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10][D]>
         : R
 }[D extends -1 ? 'done' : 'recur']
 
+type FlatReadableError<R, D extends number> = {
+    done: never
+    recur: R extends ReadableResult<infer Inner, infer E>
+        ? E | FlatReadableError<Inner, [-1, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10][D]>
+        : never
+}[D extends -1 ? 'done' : 'recur']
+
 /**
  * Takes nested readable and flattens it down to just one.
+ * The error type is the union of the error types of all nested readables.
  * @param maxDepth Maximum recursion depth, default 10.
  */
-export function flatten<T extends Readable<Result<any>>, D extends number = 10>(
+export function flatten<T extends AnyStore, D extends number = 10>(
     store: T,
     maxDepth?: D
-): ReadableResult<FlatReadableResult<T, D>> {
-    const max = maxDepth || 10
-    const result: Result<any> = {}
-    const flat = svelteReadable(result, (set) => {
-        const next = (d: number) => (r: any) => {
-            if (r.error) {
-                set({error: r.error})
+): ReadableResult<FlatReadableResult<T, D>, FlatReadableError<T, D>> {
+    const traced = trace(flattenStore(store, maxDepth || 10, 'switch'), 'flatten', [store])
+    rank(traced, [store])
+    return new ReadableResult(traced) as any
+}
+
+/**
+ * Flattens nested readables, the strategy decides what happens when the outer store
+ * emits a new readable while the previous one has yet to resolve.
+ */
+function flattenStore(
+    store: AnyStore,
+    max: number,
+    strategy: Strategy
+): Readable<Result<any, any>> {
+    return svelteReadable<Result<any, any>>({state: 'pending'}, (set) => {
+        let generation = 0
+        let busy = false
+        let queue: ResultLike<any, any>[] = []
+        let cleanup = noop
+        const settle = (id: number, r: Result<any, any>) => {
+            if (id !== generation) {
+                return
+            }
+            batch(() => set(r))
+            if (busy && isResolved(r)) {
+                busy = false
+                const next = queue.shift()
+                if (next) {
+                    enter(next)
+                }
+            }
+        }
+        const next = (id: number, d: number) => (input: ResultLike<any, any>) => {
+            const r = toResult(input)
+            if (r.state === 'err') {
+                settle(id, {state: 'err', error: r.error})
             } else {
                 if (r.value && typeof r.value.subscribe === 'function' && d < max) {
-                    return subscribeCleanup(r.value, next(d + 1))
+                    return subscribeCleanup(r.value, next(id, d + 1))
+                } else {
+                    settle(id, r)
+                }
+            }
+        }
+        const enter = (r: ResultLike<any, any>) => {
+            cleanup()
+            cleanup = noop
+            const id = ++generation
+            busy = true
+            const rv = next(id, 0)(r) || noop
+            if (id === generation) {
+                cleanup = rv
+            } else {
+                rv()
+            }
+        }
+        const unsub = store.subscribe((r) => {
+            if (busy && strategy === 'concat') {
+                queue.push(r)
+            } else if (!busy || strategy === 'switch') {
+                enter(r)
+            }
+        })
+        return () => {
+            unsub()
+            cleanup()
+            queue = []
+        }
+    })
+}
+
+/**
+ * Refresh all started stores tagged with any of the given tags, stores can also be passed directly.
+ * @returns Promise resolving to the settled results once all stores have been refreshed.
+ */
+export function invalidate(...targets: Array<string | ReadableResult<any, any>>) {
+    const refreshers = new Set<Refresher<any>>()
+    for (const target of targets) {
+        if (typeof target === 'string') {
+            const refreshersForTag = tagged.get(target)
+            if (refreshersForTag) {
+                refreshersForTag.forEach((refresh) => refreshers.add(refresh))
+            }
+        } else {
+            refreshers.add(() => target.refresh())
+        }
+    }
+    return Promise.all(Array.from(refreshers).map((refresh) => refresh()))
+}
+
+function iterate<T, E>(store: Readable<Result<T, E>>): AsyncIterableIterator<T> {
+    let unsubscribe: Unsubscriber | undefined
+    let done = false
+    let buffered: Result<T, E> | undefined
+    let waiting: Subscriber<Result<T, E>> | undefined
+    const close = () => {
+        done = true
+        if (unsubscribe) {
+            unsubscribe()
+            unsubscribe = undefined
+        }
+    }
+    const iterator: AsyncIterableIterator<T> = {
+        next: () =>
+            new Promise<IteratorResult<T>>((resolve, reject) => {
+                const deliver = (result: Result<T, E>) => {
+                    if (result.state === 'err') {
+                        close()
+                        reject(result.error)
+                    } else {
+                        resolve({value: result.value as T, done: false})
+                    }
+                }
+                if (buffered) {
+                    const result = buffered
+                    buffered = undefined
+                    deliver(result)
+                } else if (done) {
+                    resolve({value: undefined, done: true})
                 } else {
-                    set(r)
+                    waiting = deliver
+                    if (!unsubscribe) {
+                        const unsub = store.subscribe((result) => {
+                            if (done || !isSettled(result)) {
+                                return
+                            }
+                            if (waiting) {
+                                const next = waiting
+                                waiting = undefined
+                                next(result)
+                            } else {
+                                buffered = result
+                                // a buffered error is delivered on the next call, never replaced
+                                if (result.state === 'err') {
+                                    close()
+                                }
+                            }
+                        })
+                        if (done) {
+                            unsub()
+                        } else {
+                            unsubscribe = unsub
+                        }
+                    }
                 }
+            }),
+        return: () => {
+            close()
+            buffered = undefined
+            waiting = undefined
+            return Promise.resolve({value: undefined, done: true})
+        },
+        [Symbol.asyncIterator]: () => iterator,
+    }
+    return iterator
+}
+
+function observe<T, E>(store: Readable<Result<T, E>>, observer: Observer<T, E>): Subscription {
+    let closed = false
+    let unsubscribe: Unsubscriber | undefined
+    const unsub = store.subscribe((result) => {
+        if (closed || !isSettled(result)) {
+            return
+        }
+        if (result.state === 'err') {
+            closed = true
+            if (unsubscribe) {
+                unsubscribe()
+            }
+            if (observer.error) {
+                observer.error(result.error)
             }
+        } else if (observer.next) {
+            observer.next(result.value as T)
         }
-        return subscribeCleanup(store, next(0))
     })
-    return new ReadableResult(flat) as any
+    if (closed) {
+        unsub()
+    } else {
+        unsubscribe = unsub
+    }
+    return {
+        unsubscribe: () => {
+            if (!closed) {
+                closed = true
+                unsub()
+            }
+        },
+    }
+}
+
+type ShareFn<T, E, V> = (result: Result<T, E>, set: (value: V) => void) => void
+
+/**
+ * Store of values set by `fn` from the results of a store, all its subscribers share a
+ * single subscription to that store. Unlike a svelte readable it only calls its subscribers
+ * once a value is set and doesn't skip equal values.
+ */
+function share<T, E, V>(store: Readable<Result<T, E>>, fn: ShareFn<T, E, V>): Readable<V> {
+    const subscribers = new Set<{run: Subscriber<V>}>()
+    let stop: Unsubscriber | undefined
+    let started = false
+    let last: {value: V} | undefined
+    const set = (value: V) => {
+        last = {value}
+        // subscribers added while sending out the value were already given it when subscribing
+        Array.from(subscribers).forEach((subscriber) => {
+            if (subscribers.has(subscriber)) {
+                subscriber.run(value)
+            }
+        })
+    }
+    return {
+        subscribe: (run) => {
+            const subscriber = {run}
+            subscribers.add(subscriber)
+            if (!started) {
+                started = true
+                const unsubscribe = store.subscribe((result) => fn(result, set))
+                // every subscriber may have left while subscribing
+                if (subscribers.size === 0) {
+                    unsubscribe()
+                    started = false
+                    last = undefined
+                } else {
+                    stop = unsubscribe
+                }
+            } else if (last) {
+                run(last.value)
+            }
+            return () => {
+                if (subscribers.delete(subscriber) && subscribers.size === 0 && stop) {
+                    stop()
+                    stop = undefined
+                    started = false
+                    last = undefined
+                }
+            }
+        },
+    }
 }
 
 type Cleanup = () => void
@@ -336,46 +1627,299 @@ function subscribeCleanup<T>(store: Readable<T>, run: CleanupSubscriber<T>): Uns
     }
 }
 
-function internalWritable<T>(...args: any[]): Writable<Result<T>> {
-    let start: StartStopNotifier<T>
-    let result: Result<T> = {}
-    if (args.length === 2) {
-        result = args[0]
+function internalWritable<T, E>(kind: string, args: any[]): RefreshableWritable<T, E> {
+    let start: StartStopNotifier<T, E> = noop
+    let result: Result<T, E> = {state: 'pending'}
+    let options: WritableOptions<T, E> = {}
+    if (typeof args[0] === 'function') {
+        start = args[0]
+        options = args[1] || {}
+    } else if (typeof args[1] === 'function') {
+        result = toResult(args[0] || {})
         start = args[1]
+        options = args[2] || {}
     } else {
-        start = typeof args[0] === 'function' ? args[0] : noop
-        result =
-            typeof args[0] === 'object' &&
-            (args[0].value !== undefined || args[0].error !== undefined)
-                ? args[0]
-                : {}
-    }
-    return svelteWritable(result, (setResult) => {
-        try {
-            const rv = start(
-                (value) => {
-                    setResult({value})
-                },
-                (error) => {
-                    setResult({error})
+        result = toResult(args[0] || {})
+        options = args[1] || {}
+    }
+    const {schema} = options
+    // values set from outside throw when invalid, values from the start notifier error the store
+    const check = (value: Result<T, E>): Result<T, E> =>
+        schema && value.state === 'ok' ? {...value, value: parseWith(schema, value.value)} : value
+    result = check(result)
+    // stores without a start notifier have nothing to hydrate, a hydrated result skips the first run
+    let hydrated: Result<T, E> | undefined =
+        start !== noop ? track({subscribe: (run) => store.subscribe(run)}, options.key) : undefined
+    if (hydrated) {
+        result = hydrated
+    }
+    const store: Writable<Result<T, E>> = svelteWritable(result, () => {
+        let stop = noop
+        let timer: any
+        const run = (attempt: number) => {
+            const controller = new AbortController()
+            const signal = controller.signal
+            const setResult = (result: Result<T, E>) => {
+                if (!signal.aborted) {
+                    set(result)
                 }
-            )
-            if (rv instanceof Promise) {
-                rv.then((value) => {
-                    if (value !== undefined) {
-                        setResult({value})
+            }
+            const setValue = (value: T) => {
+                let checked: Result<T, E>
+                try {
+                    checked = check({state: 'ok', value})
+                } catch (error) {
+                    checked = {state: 'err', error}
+                }
+                setResult(checked)
+            }
+            let cleanup: Unsubscriber | void
+            stop = () => {
+                controller.abort()
+                if (cleanup) {
+                    cleanup()
+                }
+            }
+            const fail = (error: E) => {
+                if (signal.aborted) {
+                    return
+                }
+                if (options.retry && canRetry(options.retry, error, attempt)) {
+                    stop()
+                    set(pendingResult(result, options, attempt + 1))
+                    timer = setTimer(() => {
+                        run(attempt + 1)
+                    }, retryDelay(options.retry, attempt))
+                } else {
+                    set({state: 'err', error})
+                }
+            }
+            try {
+                const rv = start(
+                    (value) => {
+                        attempt = 1
+                        setValue(value)
+                    },
+                    fail,
+                    signal
+                )
+                if (rv instanceof Promise) {
+                    if (options.staleWhileRevalidate && isSettled(result)) {
+                        set({...result, loading: true})
                     }
-                }).catch((error) => {
-                    setResult({error})
-                })
+                    // resolving to undefined is no value, values may still be passed to set later
+                    rv.then((value) => {
+                        if (value !== undefined) {
+                            setValue(value)
+                        } else if (options.staleWhileRevalidate && result.loading) {
+                            setResult(settledResult(result))
+                        }
+                    }).catch(fail)
+                } else if (signal.aborted) {
+                    if (rv) {
+                        rv()
+                    }
+                } else {
+                    cleanup = rv
+                }
+            } catch (error) {
+                fail(error)
+            }
+        }
+        if (hydrated) {
+            hydrated = undefined
+        } else {
+            run(1)
+        }
+        const stopped = control.start(() => {
+            clearTimer(timer)
+            stop()
+            run(1)
+        }, options.tags)
+        return () => {
+            stopped()
+            clearTimer(timer)
+            stop()
+        }
+    })
+    const control = refreshControl(store)
+    const set = (value: Result<T, E>) => {
+        if (value.state === 'err') {
+            blame(value.error, traced)
+        }
+        result = value
+        batch(() => store.set(value))
+        control.settle(value)
+    }
+    const traced = trace(
+        {
+            subscribe: store.subscribe,
+            set: (value) => {
+                set(check(value))
+            },
+            update: (updater) => {
+                set(check(updater(result)))
+            },
+            // stores without a start notifier have nothing to re-run
+            refresh: start === noop ? () => Promise.resolve(result) : control.refresh,
+        },
+        kind,
+        [],
+        options.name
+    )
+    nameStore(traced, storeName(kind, options.name))
+    return traced
+}
+
+interface RefreshControl<T, E> {
+    /** Called with every result set on the store. */
+    settle: (result: Result<T, E>) => void
+    /** Called when the store starts with a function that re-runs it, returns the stop function. */
+    start: (rerun: () => void, tags?: string[]) => Unsubscriber
+    refresh: Refresher<T, E>
+}
+
+const tagged = new Map<string, Set<Refresher<any>>>()
+
+function refreshControl<T, E>(store: Readable<Result<T, E>>): RefreshControl<T, E> {
+    let rerun: (() => void) | undefined
+    let waiting: Subscriber<Result<T, E>>[] = []
+    const refresh = () =>
+        new Promise<Result<T, E>>((resolve) => {
+            // if the store isn't started subscribing to it will start a fresh run
+            const started = rerun
+            let settled = false
+            let unsubscribe: Unsubscriber | undefined
+            waiting.push((result) => {
+                settled = true
+                resolve(result)
+                if (unsubscribe) {
+                    unsubscribe()
+                }
+            })
+            const unsub = store.subscribe(noop)
+            if (settled) {
+                unsub()
             } else {
-                return rv
+                unsubscribe = unsub
+            }
+            if (started) {
+                started()
+            }
+        })
+    return {
+        settle: (result) => {
+            if (waiting.length > 0 && isSettled(result)) {
+                const resolvers = waiting
+                waiting = []
+                resolvers.forEach((resolve) => resolve(result))
+            }
+        },
+        start: (fn, tags = []) => {
+            rerun = fn
+            for (const tag of tags) {
+                const refreshers = tagged.get(tag) || new Set()
+                refreshers.add(refresh)
+                tagged.set(tag, refreshers)
+            }
+            return () => {
+                rerun = undefined
+                for (const tag of tags) {
+                    const refreshers = tagged.get(tag)
+                    if (refreshers) {
+                        refreshers.delete(refresh)
+                        if (refreshers.size === 0) {
+                            tagged.delete(tag)
+                        }
+                    }
+                }
+            }
+        },
+        refresh,
+    }
+}
+
+/** Keeps the store subscribed while refreshing the upstream stores and resolves with its next settled result. */
+function refreshThrough<T, E>(store: Readable<Result<T, E>>, refreshUpstream: () => Promise<any>) {
+    return new Promise<Result<T, E>>((resolve) => {
+        let current: Result<T, E> = {state: 'pending'}
+        let refreshed = false
+        let unsubscribe = noop
+        const settle = () => {
+            if (refreshed && isSettled(current)) {
+                refreshed = false
+                resolve(current)
+                unsubscribe()
             }
-        } catch (error) {
-            setResult({error})
         }
+        unsubscribe = store.subscribe((result) => {
+            current = result
+            settle()
+        })
+        refreshUpstream().then(() => {
+            refreshed = true
+            settle()
+        })
     })
 }
 
+/** The result without the loading flag and attempt number. */
+function settledResult<T, E>(result: Result<T, E>): Result<T, E> {
+    switch (result.state) {
+        case 'ok':
+            return {state: 'ok', value: result.value}
+        case 'err':
+            return {state: 'err', error: result.error}
+        default:
+            return {state: 'pending'}
+    }
+}
+
+function isResolved(result: Result<any, any>) {
+    return result.state !== 'pending'
+}
+
+function isSettled(result: Result<any, any>) {
+    return isResolved(result) && !result.loading
+}
+
+function isDelayed(result: Result<any, any>, options: RateLimitOptions) {
+    return result.state === 'ok' || (result.state === 'err' && options.delayErrors === true)
+}
+
+function isSameResult<T>(a: Result<T, any>, b: Result<T, any>, equals: (a: T, b: T) => boolean) {
+    if (a.state !== b.state || a.loading !== b.loading || a.attempt !== b.attempt) {
+        return false
+    }
+    return a.state === 'ok' ? equals(a.value, b.value as T) : a.error === b.error
+}
+
+function pendingResult<T, E>(
+    previous: Result<T, E>,
+    options: StoreOptions<E>,
+    attempt: number
+): Result<T, E> {
+    if (options.staleWhileRevalidate && isResolved(previous)) {
+        return {...settledResult(previous), loading: true, attempt}
+    }
+    return {state: 'pending', loading: true, attempt}
+}
+
+function canRetry<E>(policy: RetryPolicy<E>, error: E, attempt: number) {
+    if (attempt >= (policy.attempts || 3)) {
+        return false
+    }
+    return policy.shouldRetry ? policy.shouldRetry(error, attempt) : true
+}
+
+function retryDelay(policy: RetryPolicy<any>, attempt: number) {
+    const delay = Math.min(
+        (policy.delay === undefined ? 1000 : policy.delay) * Math.pow(2, attempt - 1),
+        policy.maxDelay || 30000
+    )
+    const jitter = policy.jitter === undefined ? 0.5 : policy.jitter
+    return delay - delay * jitter * Math.random()
+}
+
 // eslint-disable-next-line @typescript-eslint/no-empty-function
 function noop() {}
@@ -0,0 +1,59 @@
+import {readable} from './index'
+
+import type {ReadableResult, StoreOptions, Subscribable} from './index'
+
+/**
+ * Create a store that iterates the async iterable while it has subscribers, the store
+ * resolves to each value and errors if the iteration throws. Pass a function returning
+ * the iterable to start a new iteration every time the store starts.
+ */
+export function fromAsyncIterable<T, E = Error>(
+    source: AsyncIterable<T> | ((signal: AbortSignal) => AsyncIterable<T>),
+    options: StoreOptions<E> = {}
+): ReadableResult<T, E> {
+    return readable<T, E>((set, error, signal) => {
+        const iterable = typeof source === 'function' ? source(signal) : source
+        const iterator = iterable[Symbol.asyncIterator]()
+        const next = () => {
+            iterator.next().then(
+                (result) => {
+                    if (!signal.aborted && !result.done) {
+                        set(result.value)
+                        next()
+                    }
+                },
+                (err) => {
+                    if (!signal.aborted) {
+                        error(err)
+                    }
+                }
+            )
+        }
+        next()
+        return () => {
+            if (iterator.return) {
+                iterator.return().catch(() => undefined)
+            }
+        }
+    }, options)
+}
+
+/**
+ * Create a store that subscribes to the observable while it has subscribers, the store
+ * resolves to each value and errors when the observable errors.
+ */
+export function fromObservable<T, E = Error>(
+    observable: Subscribable<T, E>,
+    options: StoreOptions<E> = {}
+): ReadableResult<T, E> {
+    return readable<T, E>((set, error) => {
+        const subscription = observable.subscribe({next: set, error})
+        return () => {
+            if (typeof subscription === 'function') {
+                subscription()
+            } else {
+                subscription.unsubscribe()
+            }
+        }
+    }, options)
+}
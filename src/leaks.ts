@@ -0,0 +1,106 @@
+import type {Readable, Unsubscriber} from 'svelte/store'
+
+import {nameOf} from './provenance'
+import {currentTime} from './scheduler'
+
+/** A subscription that hasn't been released. */
+export interface Leak {
+    /** Name of the store subscribed to, `unknown` for stores without a name. */
+    store: string
+    /** Where the subscription was made. */
+    stack?: string
+    /** Time of the subscription in milliseconds. */
+    since: number
+}
+
+export interface LeakOptions {
+    /**
+     * Called when the unsubscribe function of a subscription is garbage collected without
+     * having been called, defaults to warning on the console.
+     */
+    warn?: (leak: Leak) => void
+}
+
+export interface LeakDetector {
+    /** The subscriptions made since detection started that are still open, oldest first. */
+    active(): Leak[]
+    /** Stop tracking new subscriptions. */
+    stop(): void
+}
+
+interface Session {
+    open: Set<Leak>
+    warn: (leak: Leak) => void
+    registry?: FinalizationRegistry<Leak>
+}
+
+let session: Session | undefined
+/** Subscriptions made while subscribing are released by the outer subscription. */
+let depth = 0
+
+/**
+ * Start tracking subscriptions to result stores, meant for development and tests.
+ * Subscriptions whose unsubscribe function is garbage collected while still open can never be
+ * released and are warned about, where `FinalizationRegistry` is available.
+ */
+export function detectLeaks(options: LeakOptions = {}): LeakDetector {
+    const open = new Set<Leak>()
+    const warn = options.warn || warnLeak
+    const current: Session = {open, warn}
+    if (typeof FinalizationRegistry !== 'undefined') {
+        current.registry = new FinalizationRegistry((leak) => {
+            if (open.delete(leak)) {
+                warn(leak)
+            }
+        })
+    }
+    session = current
+    return {
+        active: () => Array.from(open),
+        stop: () => {
+            if (session === current) {
+                session = undefined
+            }
+        },
+    }
+}
+
+/**
+ * Subscribe to a store, tracking the subscription if leak detection is enabled.
+ * @internal
+ */
+export function watch(store: Readable<any>, subscribe: () => Unsubscriber): Unsubscriber {
+    const current = session
+    if (!current) {
+        return subscribe()
+    }
+    let unsubscribe: Unsubscriber
+    depth++
+    try {
+        unsubscribe = subscribe()
+    } finally {
+        depth--
+    }
+    if (depth > 0) {
+        return unsubscribe
+    }
+    const leak: Leak = {
+        store: nameOf(store) || 'unknown',
+        stack: new Error().stack,
+        since: currentTime(),
+    }
+    current.open.add(leak)
+    const release = () => {
+        current.open.delete(leak)
+        unsubscribe()
+    }
+    if (current.registry) {
+        current.registry.register(release, leak)
+    }
+    return release
+}
+
+function warnLeak({store, stack}: Leak) {
+    // eslint-disable-next-line no-console
+    console.warn(`Subscription to ${store} was never released${stack ? `\n${stack}` : ''}`)
+}
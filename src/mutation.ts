@@ -0,0 +1,147 @@
+import {derived as svelteDerived, writable as svelteWritable} from 'svelte/store'
+
+import {abortError} from './abort'
+import {invalidate, ReadableResult, writable} from './index'
+
+import type {Readable} from 'svelte/store'
+import type {Result, Strategy} from './index'
+
+export interface MutationOptions<A, T, E = Error> {
+    /**
+     * How a run started while another one is in flight is handled, defaults to `switch`.
+     *  - `switch`: abort the in-flight run, its result is dropped.
+     *  - `concat`: queue the run and start it once the in-flight runs have settled.
+     *  - `exhaust`: don't run, resolving to a {@link BusyError} and leaving the store as is.
+     */
+    strategy?: Strategy
+    /**
+     * Called after a successful run, e.g. to update other stores with the value returned.
+     * `run` waits for a returned promise and rejects if it does.
+     */
+    onSuccess?: (value: T, args: A) => void | Promise<void>
+    /** Called when a run fails. */
+    onError?: (error: E, args: A) => void
+    /** Stores, or tags of stores, that are refreshed after a successful run, see {@link invalidate}. */
+    invalidates?: Array<string | ReadableResult<any, any>>
+    /** Name shown in debug tracing, see {@link enableDebug}. */
+    name?: string
+}
+
+export interface MutationControls<A, T, E = Error> {
+    /**
+     * Run the mutation, the store is flagged as loading until it settles.
+     * @returns Promise resolving to the result of the run, an AbortError if it was aborted by
+     *          another run or a reset, or a {@link BusyError} if it was skipped.
+     */
+    run(args: A): Promise<Result<T, E | Error>>
+    /** Abort the runs in flight and go back to pending. */
+    reset(): void
+    /** A store containing true while a run is in flight or queued. */
+    readonly isRunning: Readable<boolean>
+}
+
+export type Mutation<A, T, E = Error> = ReadableResult<T, E> & MutationControls<A, T, E>
+
+/** Error a run resolves to when it was skipped because another run was in flight. */
+export class BusyError extends Error {
+    constructor() {
+        super('Another run is in flight')
+        this.name = 'BusyError'
+    }
+}
+
+/**
+ * Create a store for an async action, e.g. a POST request, that only runs when `run` is called.
+ * The store is pending until the first run and holds the result of the last run after that.
+ */
+export function mutation<A, T, E = Error>(
+    fn: (args: A, signal: AbortSignal) => T | Promise<T>,
+    options: MutationOptions<A, T, E> = {}
+): Mutation<A, T, E> {
+    const {strategy = 'switch', onSuccess, onError, invalidates = []} = options
+    const store = writable<T, E>({}, {name: options.name})
+    const inFlight = svelteWritable(0)
+    const controllers = new Set<AbortController>()
+    let queue: Promise<unknown> = Promise.resolve()
+
+    const execute = async (args: A, controller: AbortController): Promise<Result<T, E | Error>> => {
+        const {signal} = controller
+        if (signal.aborted) {
+            return {state: 'err', error: abortError()}
+        }
+        store.update((result) =>
+            result.state === 'pending'
+                ? {state: 'pending', loading: true}
+                : {...result, loading: true}
+        )
+        let value: T
+        try {
+            value = await fn(args, signal)
+        } catch (error) {
+            if (signal.aborted) {
+                return {state: 'err', error: abortError()}
+            }
+            store.set({state: 'err', error})
+            if (onError) {
+                onError(error, args)
+            }
+            return {state: 'err', error}
+        }
+        if (signal.aborted) {
+            return {state: 'err', error: abortError()}
+        }
+        store.set({state: 'ok', value})
+        if (onSuccess) {
+            await onSuccess(value, args)
+        }
+        if (invalidates.length > 0) {
+            invalidate(...invalidates)
+        }
+        return {state: 'ok', value}
+    }
+
+    const abortAll = () => {
+        controllers.forEach((controller) => controller.abort())
+    }
+
+    const run = (args: A): Promise<Result<T, E | Error>> => {
+        if (controllers.size > 0) {
+            if (strategy === 'exhaust') {
+                return Promise.resolve({state: 'err', error: new BusyError()})
+            }
+            if (strategy === 'switch') {
+                abortAll()
+            }
+        }
+        const controller = new AbortController()
+        controllers.add(controller)
+        inFlight.update((count) => count + 1)
+        let finished = false
+        const done = () => {
+            if (!finished) {
+                finished = true
+                controllers.delete(controller)
+                inFlight.update((count) => count - 1)
+            }
+        }
+        // aborted runs stop counting right away, even if the function ignores the signal
+        controller.signal.addEventListener('abort', done)
+        const running =
+            strategy === 'concat'
+                ? queue.then(() => execute(args, controller))
+                : execute(args, controller)
+        queue = running.catch(() => undefined)
+        running.then(done, done)
+        return running
+    }
+
+    const controls: MutationControls<A, T, E> = {
+        run,
+        reset: () => {
+            abortAll()
+            store.set({state: 'pending'})
+        },
+        isRunning: svelteDerived(inFlight, (count) => count > 0),
+    }
+    return Object.assign(new ReadableResult<T, E>(store), controls)
+}
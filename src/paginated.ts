@@ -0,0 +1,131 @@
+import {get, writable as svelteWritable} from 'svelte/store'
+
+import {ReadableResult, writable} from './index'
+
+import type {Readable} from 'svelte/store'
+import type {Result} from './index'
+
+export interface PaginatedOptions<T, P, C> {
+    /** The cursor of the page after the given page, undefined or null if it was the last page. */
+    getNextCursor: (page: P, pages: P[]) => C | undefined | null
+    /** Cursor the first page is fetched with, defaults to undefined. */
+    initialCursor?: C
+    /** The items of a page, defaults to the page itself for pages that are arrays. */
+    getItems?: (page: P) => T[]
+    /** Name shown in debug tracing, see {@link enableDebug}. */
+    name?: string
+}
+
+export interface PaginatedControls<T, E = Error> {
+    /**
+     * Fetch the next page, calls made while a page is being fetched share that fetch.
+     * @returns Promise resolving to the result once the page has been added, or right away if
+     *          there are no more pages.
+     */
+    loadMore(): Promise<Result<T[], E>>
+    /** A store containing true until the last page has been loaded. */
+    readonly hasMore: Readable<boolean>
+    /**
+     * A store containing the error of the last page that failed to load, cleared once a page loads.
+     * The items loaded before are kept, the store only errors if the first page fails.
+     */
+    readonly pageError: Readable<E | undefined>
+}
+
+export type Paginated<T, E = Error> = ReadableResult<T[], E> & PaginatedControls<T, E>
+
+/**
+ * Create a store of the items of all pages loaded so far, the first page is fetched on the
+ * first subscription and more pages with `loadMore`. Refreshing the store fetches the first
+ * page again, the loaded items are kept (flagged as loading) until it arrives.
+ */
+export function paginated<T, P = T[], C = unknown, E = Error>(
+    fetchPage: (cursor: C | undefined, signal: AbortSignal) => Promise<P>,
+    options: PaginatedOptions<T, P, C>
+): Paginated<T, E> {
+    const {getNextCursor, initialCursor, getItems = (page: P) => page as unknown as T[]} = options
+    const store = writable<T[], E>({}, {name: options.name})
+    const more = svelteWritable(true)
+    const pageError = svelteWritable<E | undefined>(undefined)
+    let pages: P[] = []
+    let cursor = initialCursor
+    let subscribers = 0
+    let loading: Promise<Result<T[], E>> | undefined
+    let controller: AbortController | undefined
+
+    const items = () => pages.reduce<T[]>((all, page) => all.concat(getItems(page)), [])
+
+    const load = (fromStart: boolean): Promise<Result<T[], E>> => {
+        if (loading && !fromStart) {
+            return loading
+        }
+        // refreshing replaces the pages, a page still being fetched would be out of date
+        if (controller) {
+            controller.abort()
+        }
+        const current = new AbortController()
+        controller = current
+        // cleared before the result is set, so that loadMore calls made from then on fetch again
+        const done = () => {
+            loading = undefined
+            controller = undefined
+        }
+        const result = get(store)
+        if (result.state !== 'pending') {
+            store.set({...result, loading: true})
+        }
+        const fetching = fetchPage(fromStart ? initialCursor : cursor, current.signal)
+            .then(
+                (page) => {
+                    if (current.signal.aborted) {
+                        return
+                    }
+                    done()
+                    pages = fromStart ? [page] : [...pages, page]
+                    const next = getNextCursor(page, pages)
+                    cursor = next === null ? undefined : next
+                    more.set(next !== undefined && next !== null)
+                    pageError.set(undefined)
+                    store.set({state: 'ok', value: items()})
+                },
+                (error) => {
+                    if (current.signal.aborted) {
+                        return
+                    }
+                    done()
+                    pageError.set(error)
+                    store.set(
+                        pages.length > 0 ? {state: 'ok', value: items()} : {state: 'err', error}
+                    )
+                }
+            )
+            // an aborted fetch resolves to the result of the fetch that replaced it
+            .then(() => (current.signal.aborted && loading) || get(store))
+        loading = fetching
+        return fetching
+    }
+
+    const controls: PaginatedControls<T, E> = {
+        loadMore: () => (get(more) ? load(false) : Promise.resolve(get(store))),
+        hasMore: {subscribe: more.subscribe},
+        pageError: {subscribe: pageError.subscribe},
+    }
+    const paged = new ReadableResult<T[], E>({
+        subscribe: (run, invalidate) => {
+            const unsubscribe = store.subscribe(run, invalidate)
+            if (subscribers++ === 0 && pages.length === 0 && !loading) {
+                load(true)
+            }
+            let subscribed = true
+            return () => {
+                if (subscribed) {
+                    subscribed = false
+                    subscribers--
+                    unsubscribe()
+                }
+            }
+        },
+        refresh: () => load(true),
+    })
+    return Object.assign(paged, controls)
+}
@@ -0,0 +1,202 @@
+import {toResult, writable, WritableResult} from './index'
+
+import type {StoreOptions} from './index'
+
+/**
+ * Storage used by persisted stores, any of the methods can be async.
+ * Web storage (localStorage, sessionStorage) can be used as is but won't sync across tabs,
+ * use {@link localStorageAdapter} or {@link sessionStorageAdapter} for that.
+ */
+export interface StorageAdapter {
+    getItem(key: string): string | null | undefined | Promise<string | null | undefined>
+    setItem(key: string, value: string): void | Promise<void>
+    /** Called with the new data when the key is changed elsewhere, e.g. in another tab. */
+    subscribe?(key: string, callback: (value: string | null) => void): () => void
+}
+
+/** The data that is serialized, the version is used to migrate data stored by older versions. */
+export interface PersistedData<T> {
+    version: number
+    value: T
+}
+
+export interface PersistedOptions<T> extends StoreOptions {
+    /** Where to store the data, defaults to localStorage if available and memory otherwise. */
+    storage?: StorageAdapter
+    /** Value used when nothing is stored. */
+    initial?: T
+    /** Defaults to JSON.stringify. */
+    serialize?: (data: PersistedData<T>) => string
+    /** Defaults to JSON.parse. */
+    deserialize?: (data: string) => PersistedData<any>
+    /** Version of the data, defaults to 0. */
+    version?: number
+    /** Upgrade data stored with an older version, the store errors if not given. */
+    migrate?: (value: any, version: number) => T
+}
+
+/**
+ * Create a writable that is kept in storage, it loads the stored value when started and
+ * writes set values back. The store errors if the stored data can't be read.
+ */
+export function persisted<T>(
+    key: string,
+    options: PersistedOptions<T> & {initial: T}
+): WritableResult<T>
+export function persisted<T>(
+    key: string,
+    options?: PersistedOptions<T>
+): WritableResult<T | undefined>
+export function persisted<T>(key: string, options: PersistedOptions<T> = {}): WritableResult<T> {
+    const {
+        storage = defaultStorage(),
+        initial,
+        serialize = JSON.stringify,
+        deserialize = JSON.parse,
+        version = 0,
+        migrate,
+        ...storeOptions
+    } = options
+    // last data read or written, used to ignore our own writes when notified of changes
+    let current: string | null | undefined
+    let writes = 0
+
+    const parse = (data: string | null | undefined): T => {
+        if (data === null || data === undefined) {
+            return initial as T
+        }
+        const parsed = deserialize(data)
+        if (!parsed || typeof parsed.version !== 'number') {
+            throw new Error(`Invalid data stored for ${key}`)
+        }
+        if (parsed.version === version) {
+            return parsed.value
+        }
+        if (!migrate) {
+            throw new Error(
+                `Data stored for ${key} has version ${parsed.version}, expected ${version}`
+            )
+        }
+        return migrate(parsed.value, parsed.version)
+    }
+
+    const store = writable<T>((set, error) => {
+        const load = (data: string | null | undefined) => {
+            current = data
+            try {
+                set(parse(data))
+            } catch (err) {
+                error(err)
+            }
+        }
+        const started = writes
+        new Promise<string | null | undefined>((resolve) => resolve(storage.getItem(key))).then(
+            (data) => {
+                // values set while loading win over the stored data
+                if (writes === started) {
+                    load(data)
+                }
+            },
+            error
+        )
+        if (storage.subscribe) {
+            return storage.subscribe(key, (data) => {
+                if (data !== current) {
+                    load(data)
+                }
+            })
+        }
+    }, storeOptions)
+
+    const write = (value: T) => {
+        writes++
+        const data = serialize({version, value})
+        current = data
+        new Promise<void>((resolve) => resolve(storage.setItem(key, data))).catch((error) => {
+            store.set({state: 'err', error})
+        })
+    }
+
+    return new WritableResult<T>({
+        subscribe: store.subscribe,
+        refresh: () => store.refresh(),
+        set: (value) => {
+            const result = toResult(value)
+            store.set(result)
+            if (result.state === 'ok') {
+                write(result.value)
+            }
+        },
+        update: (updater) => {
+            store.update((value) => {
+                const result = toResult(updater(value))
+                if (result.state === 'ok') {
+                    write(result.value)
+                }
+                return result
+            })
+        },
+    })
+}
+
+/** Adapter for localStorage that syncs changes made in other tabs. */
+export function localStorageAdapter(): StorageAdapter {
+    return webStorageAdapter(() => localStorage)
+}
+
+/** Adapter for sessionStorage that syncs changes made in other tabs. */
+export function sessionStorageAdapter(): StorageAdapter {
+    return webStorageAdapter(() => sessionStorage)
+}
+
+/**
+ * Adapter keeping the data in memory, stores using the same adapter are kept in sync.
+ * Useful for tests and as a fallback where web storage is not available.
+ */
+export function memoryAdapter(data = new Map<string, string>()): StorageAdapter {
+    const listeners = new Map<string, Set<(value: string | null) => void>>()
+    return {
+        getItem: (key) => (data.has(key) ? data.get(key) : null),
+        setItem: (key, value) => {
+            data.set(key, value)
+            const callbacks = listeners.get(key)
+            if (callbacks) {
+                callbacks.forEach((callback) => callback(value))
+            }
+        },
+        subscribe: (key, callback) => {
+            const callbacks = listeners.get(key) || new Set()
+            callbacks.add(callback)
+            listeners.set(key, callbacks)
+            return () => {
+                callbacks.delete(callback)
+            }
+        },
+    }
+}
+
+function webStorageAdapter(getStorage: () => Storage): StorageAdapter {
+    return {
+        getItem: (key) => getStorage().getItem(key),
+        setItem: (key, value) => getStorage().setItem(key, value),
+        subscribe: (key, callback) => {
+            const listener = (event: StorageEvent) => {
+                // the key is null when the storage is cleared
+                if (
+                    event.storageArea === getStorage() &&
+                    (event.key === key || event.key === null)
+                ) {
+                    callback(event.key === null ? null : event.newValue)
+                }
+            }
+            window.addEventListener('storage', listener)
+            return () => {
+                window.removeEventListener('storage', listener)
+            }
+        },
+    }
+}
+
+function defaultStorage() {
+    return typeof localStorage !== 'undefined' ? localStorageAdapter() : memoryAdapter()
+}
@@ -0,0 +1,178 @@
+import type {Readable} from 'svelte/store'
+
+/** Where an error came from and the stores it passed through. */
+export interface ErrorProvenance {
+    /** Name of the store the error originated in. */
+    source: string
+    /** Names of the stores the error passed through, starting with the source. */
+    chain: string[]
+    /** The error this error was created from, e.g. by `mapError`. */
+    cause?: unknown
+}
+
+interface StoreInfo {
+    name: string
+}
+
+interface Entry {
+    source: string
+    /** The chain of every store the error reached. */
+    paths: Map<StoreInfo, string[]>
+    /** The store the error reached last. */
+    latest: StoreInfo
+}
+
+const stores = new WeakMap<Readable<any>, StoreInfo>()
+const errors = new WeakMap<Record<string, any>, Entry>()
+const causes = new WeakMap<Record<string, any>, unknown>()
+
+/**
+ * The provenance of an error set by a result store. Errors are kept as is so `instanceof`
+ * checks keep working, the provenance is looked up by the error instead.
+ * @param store The store to get the chain for, defaults to the store the error reached last.
+ * @returns The provenance, or undefined if the error wasn't seen by a store or isn't an object.
+ */
+export function errorProvenance(
+    error: unknown,
+    store?: Readable<any>
+): ErrorProvenance | undefined {
+    if (!isObject(error)) {
+        return undefined
+    }
+    const entry = errors.get(error)
+    const info = store ? stores.get(store) : entry && entry.latest
+    const chain = entry && info && entry.paths.get(info)
+    if (!entry || !chain) {
+        return undefined
+    }
+    const cause = causes.get(error)
+    const provenance: ErrorProvenance = {source: entry.source, chain: chain.slice()}
+    if (cause !== undefined) {
+        provenance.cause = cause
+    }
+    return provenance
+}
+
+/**
+ * Render an error with the stores it passed through and its causes, for example:
+ * ```
+ * TypeError: Invalid price
+ *     at prices → total → total.mapError
+ *     caused by Error: Not found
+ *         at prices
+ * ```
+ */
+export function formatError(error: unknown): string {
+    return format(error, '')
+}
+
+/**
+ * Give a store a name used in error provenance.
+ * @internal
+ */
+export function nameStore(store: Readable<any>, name: string) {
+    stores.set(store, {name})
+}
+
+/**
+ * Give a store the name of the store it wraps.
+ * @internal
+ */
+export function adopt(store: Readable<any>, source: Readable<any>) {
+    const info = stores.get(source)
+    if (info) {
+        stores.set(store, info)
+    }
+}
+
+/**
+ * The name given to a store.
+ * @internal
+ */
+export function nameOf(store: Readable<any>): string | undefined {
+    const info = stores.get(store)
+    return info && info.name
+}
+
+/**
+ * The name of a store, or the name of the store it was derived from and the kind for transforms.
+ * @internal
+ */
+export function storeName(kind: string, name?: string, input?: Readable<any>) {
+    if (name) {
+        return name
+    }
+    const info = input && stores.get(input)
+    return info ? `${info.name}.${kind}` : kind
+}
+
+/**
+ * Mark the store as the source of the error, does nothing if the error already has a source.
+ * @internal
+ */
+export function blame(error: unknown, store: Readable<any>) {
+    if (!isObject(error) || errors.has(error)) {
+        return
+    }
+    const info = stores.get(store) || {name: 'unknown'}
+    errors.set(error, {source: info.name, paths: new Map([[info, [info.name]]]), latest: info})
+}
+
+/**
+ * Extend the chain of an error passed on from one of its inputs to the store,
+ * errors without a source are blamed on the store.
+ * @internal
+ */
+export function pass(error: unknown, from: Readable<any>, to: Readable<any>) {
+    if (!isObject(error)) {
+        return
+    }
+    const entry = errors.get(error)
+    const info = stores.get(to)
+    if (!entry || !info) {
+        blame(error, to)
+        return
+    }
+    const path = entry.paths.get(stores.get(from)!)
+    // the first path to a store is kept when the error reaches it through several inputs
+    if (path && !entry.paths.has(info)) {
+        entry.paths.set(info, [...path, info.name])
+    }
+    if (entry.paths.has(info)) {
+        entry.latest = info
+    }
+}
+
+/**
+ * Record the error an error was created from.
+ * @internal
+ */
+export function caused(error: unknown, cause: unknown) {
+    if (isObject(error) && error !== cause) {
+        causes.set(error, cause)
+    }
+}
+
+function format(error: unknown, indent: string): string {
+    const lines = [indent + describe(error)]
+    const provenance = errorProvenance(error)
+    if (provenance) {
+        lines.push(`${indent}    at ${provenance.chain.join(' → ')}`)
+    }
+    const cause = isObject(error) ? causes.get(error) : undefined
+    if (cause !== undefined) {
+        lines.push(`${indent}    caused by ${format(cause, indent + '    ').trimStart()}`)
+    }
+    return lines.join('\n')
+}
+
+function describe(error: unknown) {
+    if (error instanceof Error) {
+        return `${error.name}: ${error.message}`
+    }
+    return String(error)
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return (typeof value === 'object' && value !== null) || typeof value === 'function'
+}
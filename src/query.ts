@@ -0,0 +1,177 @@
+import {ReadableResult, writable} from './index'
+import {currentTime} from './scheduler'
+
+import type {Result, StoreOptions} from './index'
+
+export interface QueryOptions<K, E = Error> extends StoreOptions<E> {
+    /**
+     * Milliseconds to keep a result cached after the last subscriber unsubscribes,
+     * subscribing again within that time reuses the result without fetching. Defaults to 5 minutes.
+     */
+    ttl?: number
+    /** Function used to turn keys into cache keys, defaults to JSON.stringify for non-string keys. */
+    hash?: (key: K) => string
+}
+
+export interface Query<K, T, E = Error> {
+    /** Get the store for the key, all callers share the same store and fetch. */
+    (key: K): ReadableResult<T, E>
+    /**
+     * Fetch the key again, or all keys if no key is given.
+     * Stores without subscribers drop their cached result and fetch again on their next subscription.
+     * @returns Promise resolving to the results of the stores that were refreshed.
+     */
+    invalidate(key?: K): Promise<Result<T, E>[]>
+    /** Remove cached results that have been unused for longer than the ttl. */
+    gc(): void
+}
+
+interface Entry<T, E> {
+    store: ReadableResult<T, E>
+    subscribers: number
+    /** Time the last subscriber unsubscribed. */
+    released: number
+    /** Whether the store holds a fetched value. */
+    fresh: boolean
+    /** Drop the cached result. */
+    reset: () => void
+}
+
+/**
+ * Create a keyed query, returning one shared store per key that fetches its value
+ * while subscribed and keeps it cached for a while after that.
+ */
+export function createQuery<K, T, E = Error>(
+    fetch: (key: K, signal: AbortSignal) => Promise<T>,
+    options: QueryOptions<K, E> = {}
+): Query<K, T, E> {
+    const {ttl = 5 * 60 * 1000, hash = defaultHash, ...storeOptions} = options
+    const entries = new Map<string, Entry<T, E>>()
+    /** Entries removed by gc, handed out again for as long as a caller holds on to their store. */
+    const evicted = new Map<string, WeakRef<Entry<T, E>>>()
+
+    const expired = (entry: Entry<T, E>, now: number) =>
+        entry.subscribers === 0 && now - entry.released >= ttl
+
+    const evict = (id: string, entry: Entry<T, E>) => {
+        entries.delete(id)
+        entry.reset()
+        if (typeof WeakRef !== 'undefined') {
+            evicted.set(id, new WeakRef(entry))
+        }
+    }
+
+    const register = (id: string, entry: Entry<T, E>) => {
+        entries.set(id, entry)
+        evicted.delete(id)
+    }
+
+    const gc = () => {
+        const now = currentTime()
+        entries.forEach((entry, id) => {
+            if (expired(entry, now)) {
+                evict(id, entry)
+            }
+        })
+        evicted.forEach((ref, id) => {
+            if (!ref.deref()) {
+                evicted.delete(id)
+            }
+        })
+    }
+
+    const create = (key: K, id: string): Entry<T, E> => {
+        let cached = false
+        const store = writable<T, E>(
+            {},
+            (set, error, signal) => {
+                if (cached) {
+                    cached = false
+                    return
+                }
+                entry.fresh = false
+                return fetch(key, signal).then((value) => {
+                    entry.fresh = true
+                    return value
+                })
+            },
+            storeOptions
+        )
+        const entry: Entry<T, E> = {
+            store: new ReadableResult({
+                subscribe: (run, invalidate) => {
+                    if (entry.subscribers === 0 && entry.fresh) {
+                        // the store can be held on to past the ttl, without query() evicting it
+                        if (currentTime() - entry.released < ttl) {
+                            cached = true
+                        } else {
+                            entry.reset()
+                        }
+                    }
+                    // a store held on to after gc evicted it is shared again
+                    if (!entries.has(id)) {
+                        register(id, entry)
+                    }
+                    entry.subscribers++
+                    const unsubscribe = store.subscribe(run, invalidate)
+                    let subscribed = true
+                    return () => {
+                        if (subscribed) {
+                            subscribed = false
+                            unsubscribe()
+                            if (--entry.subscribers === 0) {
+                                entry.released = currentTime()
+                            }
+                        }
+                    }
+                },
+                refresh: () => store.refresh(),
+            }),
+            subscribers: 0,
+            released: currentTime(),
+            fresh: false,
+            reset: () => {
+                entry.fresh = false
+                store.set({})
+            },
+        }
+        return entry
+    }
+
+    const query = (key: K) => {
+        gc()
+        const id = hash(key)
+        let entry = entries.get(id)
+        if (!entry) {
+            const ref = evicted.get(id)
+            entry = (ref && ref.deref()) || create(key, id)
+            register(id, entry)
+        }
+        return entry.store
+    }
+
+    query.invalidate = (key?: K) => {
+        let selected = Array.from(entries.values())
+        if (key !== undefined) {
+            const entry = entries.get(hash(key))
+            selected = entry ? [entry] : []
+        }
+        const refreshing: Promise<Result<T, E>>[] = []
+        for (const entry of selected) {
+            if (entry.subscribers > 0) {
+                refreshing.push(entry.store.refresh())
+            } else {
+                entry.reset()
+            }
+        }
+        return Promise.all(refreshing)
+    }
+
+    query.gc = gc
+
+    return query
+}
+
+function defaultHash(key: any) {
+    return typeof key === 'string' ? key : JSON.stringify(key)
+}
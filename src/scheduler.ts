@@ -0,0 +1,42 @@
+/** The timers used by the stores, can be replaced to control time, e.g. in tests. */
+export interface Scheduler {
+    setTimeout(callback: () => void, ms: number): unknown
+    clearTimeout(handle: unknown): void
+    /** Current time in milliseconds. */
+    now(): number
+}
+
+const globalScheduler: Scheduler = {
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: (handle: any) => {
+        clearTimeout(handle)
+    },
+    now: () => Date.now(),
+}
+
+let scheduler = globalScheduler
+
+/**
+ * Replace the timers used for delays, retries, polling, debouncing and cache expiry.
+ * @param next The scheduler to use, resets to the global timers if not given.
+ */
+export function setScheduler(next: Scheduler = globalScheduler) {
+    scheduler = next
+}
+
+/** @internal */
+export function setTimer(callback: () => void, ms: number): any {
+    return scheduler.setTimeout(callback, ms)
+}
+
+/** @internal */
+export function clearTimer(handle: unknown) {
+    if (handle !== undefined) {
+        scheduler.clearTimeout(handle)
+    }
+}
+
+/** @internal */
+export function currentTime() {
+    return scheduler.now()
+}
@@ -0,0 +1,134 @@
+import type {Readable} from 'svelte/store'
+
+import type {Result} from './index'
+
+/** Settled result in a form that can be serialized, errors keep only their name and message. */
+export type SerializedResult =
+    | {state: 'ok'; value: any}
+    | {state: 'err'; error: {name: string; message: string}}
+
+/** Settled results of the stores in a scope by their key. */
+export type Snapshot = Record<string, SerializedResult>
+
+export interface Scope {
+    /**
+     * Run the function with the scope active, stores with a start notifier and derived stores
+     * created while it runs are part of the scope, and are hydrated if the scope has a snapshot.
+     */
+    run<R>(fn: () => R): R
+    /** Wait for every store in the scope to settle, including stores created while settling. */
+    settled(): Promise<Snapshot>
+    /** The settled results of the stores in the scope. */
+    snapshot(): Snapshot
+}
+
+interface ActiveScope {
+    track: (store: Readable<Result<any, any>>, key?: string) => Result<any, any> | undefined
+}
+
+let active: ActiveScope | undefined
+
+/**
+ * Create a scope for server side rendering. On the server stores are created in the scope and
+ * their settled results serialized, on the client the scope is created with that snapshot
+ * so that the stores start from their server results instead of running again.
+ * Stores are matched by their `key` option, or the order they are created in if not given.
+ */
+export function createScope(snapshot: Snapshot = {}): Scope {
+    const stores = new Map<string, Readable<Result<any, any>>>()
+    const settled = new Map<string, SerializedResult>()
+    const hydrated = new Map(Object.entries(snapshot))
+    let count = 0
+
+    const scope: ActiveScope = {
+        track: (store, key = `${count++}`) => {
+            stores.set(key, store)
+            const result = hydrated.get(key)
+            if (result) {
+                hydrated.delete(key)
+                return deserialize(result)
+            }
+        },
+    }
+
+    const run = <R>(fn: () => R): R => {
+        const previous = active
+        active = scope
+        try {
+            return fn()
+        } finally {
+            active = previous
+        }
+    }
+
+    const settle = (key: string, store: Readable<Result<any, any>>) =>
+        new Promise<void>((resolve) => {
+            let done = false
+            let unsubscribe: (() => void) | undefined
+            const unsub = run(() =>
+                store.subscribe((result) => {
+                    if (done || result.state === 'pending' || result.loading) {
+                        return
+                    }
+                    done = true
+                    settled.set(key, serialize(result))
+                    resolve()
+                    if (unsubscribe) {
+                        unsubscribe()
+                    }
+                })
+            )
+            if (done) {
+                unsub()
+            } else {
+                unsubscribe = unsub
+            }
+        })
+
+    const snapshotResults = () => {
+        const rv: Snapshot = {}
+        settled.forEach((result, key) => {
+            rv[key] = result
+        })
+        return rv
+    }
+
+    return {
+        run,
+        settled: async () => {
+            let pending = Array.from(stores).filter(([key]) => !settled.has(key))
+            while (pending.length > 0) {
+                await Promise.all(pending.map(([key, store]) => settle(key, store)))
+                pending = Array.from(stores).filter(([key]) => !settled.has(key))
+            }
+            return snapshotResults()
+        },
+        snapshot: snapshotResults,
+    }
+}
+
+/**
+ * Register a store with the active scope.
+ * @returns The hydrated result for the store, if any.
+ * @internal
+ */
+export function track(store: Readable<Result<any, any>>, key?: string) {
+    return active ? active.track(store, key) : undefined
+}
+
+function serialize(result: Result<any, any>): SerializedResult {
+    if (result.state === 'err') {
+        const {name = 'Error', message = String(result.error)} = result.error || {}
+        return {state: 'err', error: {name, message}}
+    }
+    return {state: 'ok', value: result.value}
+}
+
+function deserialize(result: SerializedResult): Result<any, any> {
+    if (result.state === 'err') {
+        const error = new Error(result.error.message)
+        error.name = result.error.name
+        return {state: 'err', error}
+    }
+    return {state: 'ok', value: result.value}
+}
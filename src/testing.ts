@@ -0,0 +1,247 @@
+import {ReadableResult, setScheduler, TimeoutError, writable} from './index'
+
+import type {Readable} from 'svelte/store'
+import type {Result, ResultLike, ResultState, Scheduler} from './index'
+
+/** Subscription counts of a store, used to catch subscriptions that are never cleaned up. */
+export interface StoreCounters {
+    /** Current number of subscribers. */
+    readonly subscribers: number
+    /** Number of times the store got its first subscriber. */
+    readonly starts: number
+    /** Number of times the store lost its last subscriber. */
+    readonly stops: number
+}
+
+/** Store whose result is set by the test. */
+export interface StoreControls<T, E> {
+    resolve(value: T): void
+    reject(error: E): void
+    /** Flag the current result as loading, like a store being revalidated. */
+    revalidate(): void
+    /** Go back to pending. */
+    reset(): void
+    set(result: ResultLike<T, E>): void
+}
+
+export type ControlledStore<T, E = Error> = ReadableResult<T, E> &
+    StoreControls<T, E> &
+    StoreCounters
+
+export interface Recorder<T, E = Error> {
+    /** Every result emitted since recording started. */
+    readonly results: Result<T, E>[]
+    /** The states of the recorded results. */
+    states(): ResultState[]
+    /**
+     * Wait until the given number of results has been recorded in total.
+     * @param timeout Milliseconds to wait before rejecting with a TimeoutError, defaults to 1000.
+     * @returns The recorded results.
+     */
+    waitFor(count: number, timeout?: number): Promise<Result<T, E>[]>
+    /** Unsubscribe from the store, can be called more than once. */
+    stop(): void
+}
+
+/** Scheduler with timers that only run when time is advanced. */
+export interface FakeScheduler extends Scheduler {
+    /** Number of timers waiting to run. */
+    readonly pending: number
+    /**
+     * Advance time by the given milliseconds, running the timers that are due in order.
+     * Promises are let to settle after each timer.
+     */
+    tick(ms: number): Promise<void>
+    /** Run all timers, including the ones scheduled while running, time jumps to each timer. */
+    runAll(): Promise<void>
+    /** Go back to the global timers. */
+    restore(): void
+}
+
+/** Create a store whose result is set by calling its methods, it counts its subscribers. */
+export function controlled<T, E = Error>(initial: ResultLike<T, E> = {}): ControlledStore<T, E> {
+    const store = writable<T, E>(initial)
+    const controls: StoreControls<T, E> = {
+        resolve: (value) => {
+            store.set({state: 'ok', value})
+        },
+        reject: (error) => {
+            store.set({state: 'err', error})
+        },
+        revalidate: () => {
+            store.update((result) => ({...result, loading: true}))
+        },
+        reset: () => {
+            store.set({state: 'pending'})
+        },
+        set: (result) => {
+            store.set(result)
+        },
+    }
+    return Object.assign(spy(store), controls)
+}
+
+/** Wrap a result store to count its subscribers and starts and stops. */
+export function spy<T, E>(store: Readable<ResultLike<T, E>>): ReadableResult<T, E> & StoreCounters {
+    let subscribers = 0
+    let starts = 0
+    let stops = 0
+    const spied = new ReadableResult<T, E>({
+        subscribe: (run, invalidate) => {
+            if (subscribers++ === 0) {
+                starts++
+            }
+            const unsubscribe = store.subscribe(run, invalidate)
+            let subscribed = true
+            return () => {
+                if (subscribed) {
+                    subscribed = false
+                    unsubscribe()
+                    if (--subscribers === 0) {
+                        stops++
+                    }
+                }
+            }
+        },
+        refresh: store instanceof ReadableResult ? () => store.refresh() : undefined,
+    })
+    return Object.defineProperties(spied, {
+        subscribers: {get: () => subscribers},
+        starts: {get: () => starts},
+        stops: {get: () => stops},
+    }) as ReadableResult<T, E> & StoreCounters
+}
+
+/** Throw if the store doesn't have the given number of subscribers. */
+export function assertSubscribers(store: StoreCounters, count: number) {
+    if (store.subscribers !== count) {
+        throw assertionError(`Expected ${count} subscribers, got ${store.subscribers}`)
+    }
+}
+
+/** Throw if any of the stores still has subscribers or wasn't stopped as often as it was started. */
+export function assertStopped(...stores: StoreCounters[]) {
+    stores.forEach((store, i) => {
+        if (store.subscribers !== 0 || store.starts !== store.stops) {
+            throw assertionError(
+                `Store ${i} leaked, ${store.subscribers} subscribers, ` +
+                    `${store.starts} starts and ${store.stops} stops`
+            )
+        }
+    })
+}
+
+/** Subscribe to the store and record every result it emits. */
+export function record<T, E>(store: Readable<Result<T, E>>): Recorder<T, E> {
+    const results: Result<T, E>[] = []
+    const waiting: Array<() => void> = []
+    let stopped = false
+    const unsubscribe = store.subscribe((result) => {
+        results.push(result)
+        waiting.slice().forEach((check) => check())
+    })
+    return {
+        results,
+        states: () => results.map((result) => result.state),
+        waitFor: (count, timeout = 1000) =>
+            new Promise((resolve, reject) => {
+                // real timers so that the deadline works with a fake scheduler
+                const timer = setTimeout(() => {
+                    remove()
+                    reject(new TimeoutError(timeout))
+                }, timeout)
+                const check = () => {
+                    if (results.length >= count) {
+                        clearTimeout(timer)
+                        remove()
+                        resolve(results.slice())
+                    }
+                }
+                const remove = () => {
+                    const index = waiting.indexOf(check)
+                    if (index !== -1) {
+                        waiting.splice(index, 1)
+                    }
+                }
+                waiting.push(check)
+                check()
+            }),
+        stop: () => {
+            if (!stopped) {
+                stopped = true
+                unsubscribe()
+            }
+        },
+    }
+}
+
+/** Make the stores use a fake scheduler, call `restore` on it when done. */
+export function useFakeScheduler(start = 0): FakeScheduler {
+    let now = start
+    let ids = 0
+    let timers: Array<{id: number; time: number; callback: () => void}> = []
+    const next = (until: number) => {
+        let due: typeof timers[number] | undefined
+        for (const timer of timers) {
+            if (timer.time <= until && (!due || timer.time < due.time)) {
+                due = timer
+            }
+        }
+        return due
+    }
+    const run = async (until: number) => {
+        await flush()
+        let timer = next(until)
+        let count = 0
+        while (timer) {
+            // e.g. a poll that keeps scheduling itself
+            if (++count > 10000) {
+                throw new Error('Too many timers, is something scheduling itself?')
+            }
+            const current = timer
+            timers = timers.filter((t) => t !== current)
+            now = Math.max(now, current.time)
+            current.callback()
+            await flush()
+            timer = next(until)
+        }
+    }
+    const scheduler: FakeScheduler = {
+        setTimeout: (callback, ms) => {
+            const id = ++ids
+            timers.push({id, time: now + Math.max(ms, 0), callback})
+            return id
+        },
+        clearTimeout: (handle) => {
+            timers = timers.filter((timer) => timer.id !== handle)
+        },
+        now: () => now,
+        get pending() {
+            return timers.length
+        },
+        tick: async (ms) => {
+            const until = now + ms
+            await run(until)
+            now = until
+        },
+        runAll: () => run(Infinity),
+        restore: () => {
+            setScheduler()
+        },
+    }
+    setScheduler(scheduler)
+    return scheduler
+}
+
+/** Let pending promises settle. */
+function flush() {
+    return new Promise<void>((resolve) => {
+        setTimeout(resolve, 0)
+    })
+}
+
+function assertionError(message: string) {
+    const error = new Error(message)
+    error.name = 'AssertionError'
+    return error
+}
@@ -0,0 +1,81 @@
+/**
+ * Anything that can parse a value, e.g. a zod schema. Parsers with `safeParse` are preferred,
+ * `parse` is expected to throw when the value is invalid.
+ */
+export type Schema<T> =
+    | {safeParse(value: unknown): {success: true; data: T} | {success: false; error: unknown}}
+    | {parse(value: unknown): T}
+
+export interface ValidationIssue {
+    /** Path to the invalid field, empty if the value itself is invalid. */
+    path: Array<string | number>
+    message: string
+}
+
+/** Error used when a value doesn't match its schema, with an issue for every invalid field. */
+export class ValidationError extends Error {
+    constructor(readonly issues: ValidationIssue[]) {
+        super(issues.map(formatIssue).join('; ') || 'Invalid value')
+        this.name = 'ValidationError'
+    }
+}
+
+/**
+ * Parse the value with the schema.
+ * @throws ValidationError if the value is invalid.
+ * @internal
+ */
+export function parseWith<T>(schema: Schema<T>, value: unknown): T {
+    if ('safeParse' in schema) {
+        const result = schema.safeParse(value)
+        if (!result.success) {
+            throw validationError(result.error)
+        }
+        return result.data
+    }
+    try {
+        return schema.parse(value)
+    } catch (error) {
+        throw validationError(error)
+    }
+}
+
+/** Read the issues of errors thrown by common validation libraries. */
+function validationError(error: any): ValidationError {
+    if (error instanceof ValidationError) {
+        return error
+    }
+    if (error && Array.isArray(error.issues)) {
+        // zod and valibot
+        return new ValidationError(
+            error.issues.map((issue: any) => ({
+                path: (issue.path || []).map((key: any) =>
+                    typeof key === 'object' && key !== null ? key.key : key
+                ),
+                message: String(issue.message),
+            }))
+        )
+    }
+    if (error && Array.isArray(error.inner) && error.inner.length > 0) {
+        // yup
+        return new ValidationError(error.inner.map(yupIssue))
+    }
+    if (error && typeof error.path === 'string') {
+        return new ValidationError([yupIssue(error)])
+    }
+    const message = error instanceof Error ? error.message : String(error)
+    return new ValidationError([{path: [], message}])
+}
+
+function yupIssue(error: any): ValidationIssue {
+    const path = error.path
+        ? String(error.path)
+              .split(/[.[\]]/)
+              .filter(Boolean)
+        : []
+    return {path, message: String(error.message)}
+}
+
+function formatIssue({path, message}: ValidationIssue) {
+    return path.length > 0 ? `${path.join('.')}: ${message}` : message
+}
@@ -0,0 +1,94 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {get} from 'svelte/store'
+
+import {allSettled, batch, derived, writable} from '../src'
+
+suite('batch', function () {
+    test('diamond', function () {
+        const price = writable({value: 1})
+        const tax = derived(price, (value) => value / 10)
+        const shipping = price.mapValue((value) => (value > 10 ? 0 : 5))
+        const runs: number[][] = []
+        const total = derived([price, tax, shipping], ([price, tax, shipping]) => {
+            runs.push([price, tax, shipping])
+            return price + tax + shipping
+        })
+        const unsub = total.subscribe(() => undefined)
+        price.set({value: 20})
+        unsub()
+        assert.deepEqual(runs, [
+            [1, 0.1, 5],
+            [20, 2, 0],
+        ])
+    })
+
+    test('async diamond', async function () {
+        const id = writable({value: 1})
+        const user = derived(id, (id) => `user${id}`)
+        const fetched: string[] = []
+        const profile = derived(
+            [id, user.mapValue((name) => name.toUpperCase())],
+            async ([id, name]) => {
+                fetched.push(`${id}:${name}`)
+                return name
+            }
+        )
+        const unsub = profile.subscribe(() => undefined)
+        id.set({value: 2})
+        assert.equal(await profile.toPromise(), 'USER2')
+        unsub()
+        assert.deepEqual(fetched, ['1:USER1', '2:USER2'])
+    })
+
+    test('transaction', function () {
+        const first = writable({value: 'Jane'})
+        const last = writable({value: 'Doe'})
+        const runs: string[] = []
+        const name = derived([first, last], ([first, last]) => {
+            runs.push(`${first} ${last}`)
+            return `${first} ${last}`
+        })
+        const both = allSettled([first, last])
+        const results: number[] = []
+        const unsub = name.subscribe(() => undefined)
+        const unsubBoth = both.subscribe(() => results.push(results.length))
+        const rv = batch(() => {
+            first.set({value: 'John'})
+            last.set({value: 'Smith'})
+            // derived stores update when the batch ends
+            assert.equal(get(name).value, 'Jane Doe')
+            return 1
+        })
+        assert.equal(rv, 1)
+        assert.equal(get(name).value, 'John Smith')
+        unsub()
+        unsubBoth()
+        assert.deepEqual(runs, ['Jane Doe', 'John Smith'])
+        assert.deepEqual(results, [0, 1])
+    })
+
+    test('nested and throwing', function () {
+        const a = writable({value: 1})
+        const b = writable({value: 1})
+        const runs: number[] = []
+        const sum = derived([a, b], ([a, b]) => {
+            runs.push(a + b)
+            return a + b
+        })
+        const unsub = sum.subscribe(() => undefined)
+        assert.throws(() => {
+            batch(() => {
+                a.set({value: 2})
+                batch(() => {
+                    b.set({value: 2})
+                })
+                throw new Error('Boom')
+            })
+        }, /Boom/)
+        assert.deepEqual(runs, [2, 4])
+        a.set({value: 3})
+        unsub()
+        assert.deepEqual(runs, [2, 4, 5])
+    })
+})
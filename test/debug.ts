@@ -0,0 +1,96 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {derived, disableDebug, enableDebug, readable, writable} from '../src'
+import type {Transition} from '../src'
+
+suite('debug', function () {
+    teardown(function () {
+        disableDebug()
+    })
+
+    test('graph', function () {
+        const before = writable({value: 1})
+        const inspector = enableDebug()
+        const a = writable({value: 1}, () => undefined, {name: 'a'})
+        const b = readable<number>(async () => 2, {name: 'b'})
+        const sum = derived([a, b], ([a, b]) => a + b, {name: 'sum'})
+        const doubled = sum.mapValue((value) => value * 2)
+        const late = derived(before, (value) => value)
+        assert.deepEqual(
+            inspector.nodes().map(({name, kind}) => [name, kind]),
+            [
+                ['a', 'writable'],
+                ['b', 'readable'],
+                ['sum', 'derived'],
+                ['sum.mapValue', 'mapValue'],
+                ['external#' + inspector.find(before)!.id, 'external'],
+                ['derived#' + inspector.find(late)!.id, 'derived'],
+            ]
+        )
+        const node = inspector.find(sum)!
+        assert.equal(inspector.find('sum'), node)
+        assert.deepEqual(
+            node.inputs.map((input) => input.name),
+            ['a', 'b']
+        )
+        assert.deepEqual(
+            node.outputs.map((output) => output.name),
+            ['sum.mapValue']
+        )
+        assert.equal(inspector.find(doubled)!.inputs[0], node)
+        disableDebug()
+        assert.equal(inspector.find(writable({value: 1})), undefined)
+    })
+
+    test('transitions', async function () {
+        const logged: Transition[] = []
+        const inspector = enableDebug({log: (transition) => logged.push(transition)})
+        const a = writable({value: 1}, () => undefined, {name: 'a'})
+        const b = readable<number>(
+            async () => {
+                await sleep(5)
+                throw new Error('Boom')
+            },
+            {name: 'b'}
+        )
+        const sum = derived([a, b], ([a, b]) => a + b, {name: 'sum'})
+        const doubled = sum.map((result) => result)
+        const unsubs = [doubled.subscribe(() => undefined), doubled.subscribe(() => undefined)]
+        await sleep(10)
+        unsubs.forEach((unsub) => unsub())
+        const transitions = inspector.transitions()
+        assert.deepEqual(logged, transitions)
+        assert.deepEqual(
+            transitions.map(({node, from, to}) => `${node.name}: ${from} -> ${to}`),
+            [
+                'a: pending -> ok',
+                'b: pending -> err',
+                'sum: pending -> err',
+                'sum.map: pending -> err',
+            ]
+        )
+        assert.ok(transitions[1].elapsed >= 4)
+        assert.equal(inspector.origin(doubled), inspector.find('b'))
+        assert.equal(inspector.origin(a), undefined)
+        const seen: string[] = []
+        const remove = inspector.onTransition(({node}) => seen.push(node.name))
+        // results are only seen while the store has subscribers
+        a.set({value: 2})
+        const unsub = a.subscribe(() => undefined)
+        a.set({value: 3})
+        remove()
+        a.set({value: 4})
+        unsub()
+        assert.deepEqual(seen, ['a', 'a'])
+        assert.deepEqual(inspector.find(a)!.result, {state: 'ok', value: 4})
+        inspector.clear()
+        assert.deepEqual(inspector.transitions(), [])
+    })
+})
+
+function sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+        setTimeout(resolve, ms)
+    })
+}
@@ -0,0 +1,160 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {get} from 'svelte/store'
+
+import {form, ValidationError} from '../src'
+import {useFakeScheduler} from '../src/testing'
+
+interface Signup {
+    name: string
+    email: string
+}
+
+suite('form', function () {
+    test('fields', async function () {
+        const signup = form<Signup>(
+            {name: '', email: ''},
+            {
+                validate: ({name}) => (name ? {} : {name: 'Required'}),
+                submit: () => undefined,
+            }
+        )
+        const {name, email} = signup.fields
+        const results: any[] = []
+        const unsub = name.result.subscribe((result) => results.push(result.state))
+        assert.equal(get(name.touched), false)
+        name.touch()
+        assert.equal(get(name.touched), true)
+        assert.equal(get(email.touched), false)
+        assert.equal(get(name.dirty), false)
+        name.set('foo')
+        assert.equal(get(name), 'foo')
+        assert.equal(get(name.dirty), true)
+        assert.equal(get(signup.dirty), true)
+        assert.deepEqual(await email.result.toPromise(), '')
+        assert.deepEqual(await signup.result.toPromise(), {name: 'foo', email: ''})
+        name.update((value) => value.slice(3))
+        const error = await name.result.toPromise().catch((error) => error)
+        assert.ok(error instanceof ValidationError)
+        assert.deepEqual(error.issues, [{path: ['name'], message: 'Required'}])
+        unsub()
+        assert.deepEqual(results, ['err', 'ok', 'err'])
+        signup.reset({name: 'bar', email: 'bar@example.com'})
+        assert.equal(get(name), 'bar')
+        assert.equal(get(name.touched), false)
+        assert.equal(get(signup.dirty), false)
+    })
+
+    test('async validation', async function () {
+        const checked: string[] = []
+        const signup = form<Signup>(
+            {name: 'foo', email: ''},
+            {
+                validateAsync: async ({name}) => {
+                    checked.push(name)
+                    return name === 'taken' ? {name: 'Name is taken'} : undefined
+                },
+                debounce: 10,
+                submit: () => undefined,
+            }
+        )
+        const {name} = signup.fields
+        const unsub = name.result.subscribe(() => undefined)
+        await sleep(15)
+        name.set('tak')
+        name.set('taken')
+        const results: any[] = []
+        const unsubResults = name.result.subscribe((result) => results.push(result))
+        await sleep(15)
+        unsubResults()
+        unsub()
+        assert.deepEqual(checked, ['foo', 'taken'])
+        // the last validated value is kept while validating
+        assert.deepEqual(results[0], {state: 'ok', value: 'foo', loading: true})
+        assert.equal(results[results.length - 1].error.message, 'name: Name is taken')
+    })
+
+    test('async validation timers', async function () {
+        const scheduler = useFakeScheduler()
+        try {
+            const signup = form<Signup>(
+                {name: 'foo', email: ''},
+                {validateAsync: async () => undefined, debounce: 100, submit: () => undefined}
+            )
+            const {name} = signup.fields
+            const unsub = name.result.subscribe(() => undefined)
+            name.set('a')
+            name.set('ab')
+            name.set('abc')
+            assert.equal(scheduler.pending, 1)
+            unsub()
+            assert.equal(scheduler.pending, 0)
+        } finally {
+            scheduler.restore()
+        }
+    })
+
+    test('async validation error', async function () {
+        const signup = form<Signup>(
+            {name: 'foo', email: ''},
+            {
+                validateAsync: async () => {
+                    throw new Error('Network down')
+                },
+                debounce: 0,
+                submit: () => undefined,
+            }
+        )
+        await assert.rejects(signup.result.toPromise(), /Network down/)
+        const error = await signup.fields.name.result.toPromise().catch((error) => error)
+        assert.ok(!(error instanceof ValidationError))
+        assert.equal(error.message, 'Network down')
+    })
+
+    test('submit', async function () {
+        const submitted: Signup[] = []
+        const signup = form<Signup, number>(
+            {name: '', email: 'taken@example.com'},
+            {
+                validate: ({name}) => (name ? {} : {name: 'Required'}),
+                submit: async (values) => {
+                    submitted.push(values)
+                    if (values.email === 'taken@example.com') {
+                        throw new ValidationError([{path: ['email'], message: 'Already in use'}])
+                    }
+                    if (values.email === 'down@example.com') {
+                        throw new Error('Server down')
+                    }
+                    return 1
+                },
+            }
+        )
+        const {name, email} = signup.fields
+        const invalid = await signup
+            .submit()
+            .toPromise()
+            .catch((error) => error)
+        assert.deepEqual(invalid.issues, [{path: ['name'], message: 'Required'}])
+        assert.equal(get(email.touched), true)
+        assert.equal(submitted.length, 0)
+        name.set('foo')
+        const submission = signup.submit()
+        assert.equal(get(signup.submitting), true)
+        await assert.rejects(submission.toPromise(), /Already in use/)
+        assert.equal(get(signup.submitting), false)
+        await assert.rejects(email.result.toPromise(), /Already in use/)
+        assert.equal(await name.result.toPromise(), 'foo')
+        email.set('down@example.com')
+        assert.equal(await email.result.toPromise(), 'down@example.com')
+        await assert.rejects(signup.submit().toPromise(), /Server down/)
+        email.set('foo@example.com')
+        assert.equal(await signup.submit().toPromise(), 1)
+        assert.equal(submitted.length, 3)
+    })
+})
+
+function sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+        setTimeout(resolve, ms)
+    })
+}
@@ -1,7 +1,22 @@
 import {strict as assert} from 'assert'
 import 'mocha'
+import {get} from 'svelte/store'
 
-import {derived, flatten, readable, writable} from '../src'
+import {
+    allSettled,
+    any,
+    combineErrors,
+    derived,
+    flatten,
+    invalidate,
+    isError,
+    poll,
+    race,
+    readable,
+    TimeoutError,
+    writable,
+} from '../src'
+import {useFakeScheduler} from '../src/testing'
 
 suite('result store', function () {
     test('subscribe', function (done) {
@@ -547,6 +562,899 @@ suite('result store', function () {
             }
         })
     })
+
+    test('abort on unsubscribe', async function () {
+        let signal: AbortSignal | undefined
+        let resolve: (value: number) => void = () => {}
+        const store = readable<number>((set, error, s) => {
+            signal = s
+            return new Promise((r) => {
+                resolve = r
+            })
+        })
+        const results: any[] = []
+        const unsub = store.subscribe((r) => results.push(r))
+        assert.equal(signal?.aborted, false)
+        unsub()
+        assert.equal(signal?.aborted, true)
+        resolve(1)
+        await sleep(1)
+        assert.deepEqual(results, [{state: 'pending'}])
+        const promise = store.promise
+        resolve(42)
+        assert.equal(await promise, 42)
+    })
+
+    test('derived abort on change', async function () {
+        const a = writable({value: 1})
+        const signals: AbortSignal[] = []
+        const store = derived(a, async ($a, set, error, signal) => {
+            signals.push(signal)
+            await sleep($a === 1 ? 10 : 1)
+            return $a * 10
+        })
+        const values: any[] = []
+        const unsub = store.value.subscribe((v) => values.push(v))
+        a.set({value: 2})
+        assert.equal(signals[0].aborted, true)
+        assert.equal(signals[1].aborted, false)
+        await sleep(20)
+        assert.deepEqual(values, [undefined, 20])
+        unsub()
+        assert.equal(signals[1].aborted, true)
+    })
+
+    test('derived latest wins', async function () {
+        const a = writable({value: 30})
+        const store = derived(a, async ($a) => {
+            await sleep($a)
+            return $a
+        })
+        const values: any[] = []
+        const unsub = store.value.subscribe((v) => values.push(v))
+        a.set({value: 1})
+        await sleep(40)
+        assert.deepEqual(values, [undefined, 1])
+        unsub()
+    })
+
+    test('derived concat', async function () {
+        const a = writable({value: 10})
+        const store = derived(
+            a,
+            async ($a) => {
+                await sleep($a)
+                return $a
+            },
+            {strategy: 'concat'}
+        )
+        const values: any[] = []
+        const unsub = store.value.subscribe((v) => values.push(v))
+        a.set({value: 2})
+        a.set({value: 1})
+        await sleep(30)
+        assert.deepEqual(values, [undefined, 10, 2, 1])
+        unsub()
+    })
+
+    test('derived exhaust', async function () {
+        const a = writable({value: 10})
+        let runs = 0
+        const store = derived(
+            a,
+            async ($a) => {
+                runs++
+                await sleep($a)
+                return $a
+            },
+            {strategy: 'exhaust'}
+        )
+        const values: any[] = []
+        const unsub = store.value.subscribe((v) => values.push(v))
+        a.set({value: 2})
+        await sleep(20)
+        assert.deepEqual(values, [undefined, 10])
+        assert.equal(runs, 1)
+        a.set({value: 1})
+        await sleep(5)
+        assert.deepEqual(values, [undefined, 10, 1])
+        unsub()
+    })
+
+    test('flatMapValue concat', async function () {
+        const a = writable({value: 10})
+        const b = a.flatMapValue(
+            (value) =>
+                readable<number>(async () => {
+                    await sleep(value)
+                    return value
+                }),
+            {strategy: 'concat'}
+        )
+        const values: any[] = []
+        const unsub = b.value.subscribe((v) => values.push(v))
+        a.set({value: 2})
+        a.set({value: 1})
+        await sleep(30)
+        assert.deepEqual(values, [undefined, 10, undefined, 2, undefined, 1])
+        unsub()
+    })
+
+    test('flatMapValue exhaust', async function () {
+        const a = writable({value: 10})
+        const b = a.flatMapValue(
+            (value) =>
+                readable<number>(async () => {
+                    await sleep(value)
+                    return value
+                }),
+            {strategy: 'exhaust'}
+        )
+        const values: any[] = []
+        const unsub = b.value.subscribe((v) => values.push(v))
+        a.set({value: 2})
+        await sleep(20)
+        a.set({value: 1})
+        await sleep(5)
+        assert.deepEqual(values, [undefined, 10, undefined, 1])
+        unsub()
+    })
+
+    test('loading', async function () {
+        const store = readable<number>(async () => {
+            await sleep(1)
+            return 1
+        })
+        const loading: boolean[] = []
+        const unsub = store.loading.subscribe((v) => loading.push(v))
+        await sleep(5)
+        assert.deepEqual(loading, [true, false])
+        unsub()
+    })
+
+    test('stale while revalidate', async function () {
+        let n = 0
+        const store = readable<number>(
+            async () => {
+                await sleep(1)
+                return ++n
+            },
+            {staleWhileRevalidate: true}
+        )
+        assert.equal(await store.promise, 1)
+        await sleep(1)
+        const results: any[] = []
+        const unsub = store.subscribe((r) => results.push(r))
+        await sleep(5)
+        assert.deepEqual(results, [
+            {state: 'ok', value: 1, loading: true},
+            {state: 'ok', value: 2},
+        ])
+        unsub()
+    })
+
+    test('derived stale while revalidate', async function () {
+        const a = writable({value: 1})
+        const store = derived(
+            a,
+            async ($a) => {
+                await sleep(1)
+                return $a * 2
+            },
+            {staleWhileRevalidate: true}
+        )
+        const results: any[] = []
+        const unsub = store.subscribe((r) => results.push(r))
+        await sleep(5)
+        a.set({value: 2})
+        await sleep(5)
+        a.set({})
+        a.set({value: 3})
+        await sleep(5)
+        assert.deepEqual(results, [
+            {state: 'pending'},
+            {state: 'ok', value: 2},
+            {state: 'ok', value: 2, loading: true},
+            {state: 'ok', value: 4},
+            {state: 'ok', value: 4, loading: true},
+            {state: 'ok', value: 6},
+        ])
+        unsub()
+    })
+
+    test('retry', async function () {
+        let n = 0
+        const store = readable<number>(
+            async () => {
+                if (++n < 3) {
+                    throw new Error(`fail ${n}`)
+                }
+                return n
+            },
+            {retry: {attempts: 3, delay: 1}}
+        )
+        const results: any[] = []
+        const unsub = store.subscribe((r) => results.push(r))
+        await sleep(20)
+        assert.deepEqual(results, [
+            {state: 'pending'},
+            {state: 'pending', loading: true, attempt: 2},
+            {state: 'pending', loading: true, attempt: 3},
+            {state: 'ok', value: 3},
+        ])
+        unsub()
+    })
+
+    test('retry gives up', async function () {
+        let n = 0
+        const store = readable<number>(
+            () => {
+                n++
+                throw new Error('fail')
+            },
+            {retry: {attempts: 2, delay: 1}}
+        )
+        await assert.rejects(store.promise, /fail/)
+        assert.equal(n, 2)
+    })
+
+    test('retry predicate', async function () {
+        let n = 0
+        const store = readable<number>(
+            async () => {
+                n++
+                throw new Error('fatal')
+            },
+            {retry: {delay: 1, shouldRetry: (error) => error.message !== 'fatal'}}
+        )
+        await assert.rejects(store.promise, /fatal/)
+        assert.equal(n, 1)
+    })
+
+    test('retry stops on unsubscribe', async function () {
+        let n = 0
+        const store = readable<number>(
+            async () => {
+                n++
+                throw new Error('fail')
+            },
+            {retry: {attempts: 10, delay: 5}}
+        )
+        const unsub = store.subscribe(() => {})
+        await sleep(1)
+        unsub()
+        await sleep(20)
+        assert.equal(n, 1)
+    })
+
+    test('derived retry', async function () {
+        const a = writable({value: 1})
+        let n = 0
+        const store = derived(
+            a,
+            ($a) => {
+                if (++n < 2) {
+                    throw new Error('fail')
+                }
+                return $a + n
+            },
+            {retry: {delay: 1, jitter: 0}}
+        )
+        const results: any[] = []
+        const unsub = store.subscribe((r) => results.push(r))
+        await sleep(10)
+        assert.deepEqual(results, [
+            {state: 'pending', loading: true, attempt: 2},
+            {state: 'ok', value: 3},
+        ])
+        unsub()
+    })
+
+    test('refresh', async function () {
+        let n = 0
+        const store = readable<number>(async () => {
+            await sleep(1)
+            return ++n
+        })
+        const values: any[] = []
+        const unsub = store.value.subscribe((v) => values.push(v))
+        await sleep(5)
+        assert.deepEqual(await store.refresh(), {state: 'ok', value: 2})
+        unsub()
+        assert.deepEqual(await store.refresh(), {state: 'ok', value: 3})
+        assert.deepEqual(values, [undefined, 1, 2])
+    })
+
+    test('refresh subscribed', async function () {
+        let n = 0
+        let starts = 0
+        const store = readable<number>((set) => {
+            starts++
+            set(++n)
+        })
+        const values: any[] = []
+        const unsub = store.value.subscribe((v) => values.push(v))
+        const result = await store.refresh()
+        assert.deepEqual(result, {state: 'ok', value: 2})
+        assert.deepEqual(values, [1, 2])
+        assert.equal(starts, 2)
+        unsub()
+    })
+
+    test('derived refresh', async function () {
+        const a = writable({value: 2})
+        let n = 0
+        const store = derived(a, async ($a) => {
+            await sleep(1)
+            return $a * ++n
+        })
+        const mapped = store.mapValue((v) => v + 1)
+        const values: any[] = []
+        const unsub = mapped.value.subscribe((v) => values.push(v))
+        await sleep(5)
+        assert.deepEqual(await mapped.refresh(), {state: 'ok', value: 5})
+        assert.deepEqual(values, [3, 5])
+        unsub()
+    })
+
+    test('invalidate', async function () {
+        let n = 0
+        const a = readable<number>((set) => set(++n), {tags: ['numbers']})
+        const b = readable<number>((set) => set(++n), {tags: ['numbers', 'other']})
+        const c = writable({value: 0})
+        const unsubA = a.subscribe(() => {})
+        const unsubB = b.subscribe(() => {})
+        const results = await invalidate('numbers', 'other', c)
+        assert.deepEqual(results, [
+            {state: 'ok', value: 3},
+            {state: 'ok', value: 4},
+            {state: 'ok', value: 0},
+        ])
+        unsubA()
+        unsubB()
+        assert.deepEqual(await invalidate('numbers'), [])
+    })
+
+    test('poll', async function () {
+        const scheduler = useFakeScheduler()
+        try {
+            let n = 0
+            const store = poll(() => ++n, {interval: 10})
+            const values: any[] = []
+            const unsub = store.value.subscribe((v) => values.push(v))
+            await scheduler.tick(25)
+            unsub()
+            assert.deepEqual(values, [undefined, 1, 2, 3])
+            assert.equal(scheduler.pending, 0)
+            await scheduler.tick(100)
+            assert.equal(n, 3)
+        } finally {
+            scheduler.restore()
+        }
+    })
+
+    test('poll skips while in flight', async function () {
+        const scheduler = useFakeScheduler()
+        try {
+            let runs = 0
+            const store = poll(
+                async () => {
+                    runs++
+                    await new Promise<void>((resolve) => scheduler.setTimeout(resolve, 25))
+                    return runs
+                },
+                {interval: 10}
+            )
+            const unsub = store.subscribe(() => {})
+            // runs at 0 and 30, the ticks at 10 and 20 are skipped
+            await scheduler.tick(29)
+            assert.equal(runs, 1)
+            await scheduler.tick(1)
+            assert.equal(runs, 2)
+            unsub()
+        } finally {
+            scheduler.restore()
+        }
+    })
+
+    test('poll pause while errored', async function () {
+        const scheduler = useFakeScheduler()
+        try {
+            let n = 0
+            const trigger = writable({value: 0})
+            const store = poll(
+                () => {
+                    if (++n === 1) {
+                        throw new Error('fail')
+                    }
+                    return n
+                },
+                {interval: 20, pauseWhileErrored: true, trigger}
+            )
+            const results: any[] = []
+            const unsub = store.subscribe((r) => results.push(r))
+            await scheduler.tick(100)
+            assert.equal(n, 1)
+            assert.equal(scheduler.pending, 0)
+            trigger.set({value: 1})
+            await scheduler.tick(0)
+            unsub()
+            assert.equal(n, 2)
+            assert.equal(results[0].error.message, 'fail')
+            assert.deepEqual(results[1], {state: 'ok', value: 2})
+        } finally {
+            scheduler.restore()
+        }
+    })
+
+    test('poll backoff on error', async function () {
+        const scheduler = useFakeScheduler()
+        try {
+            let n = 0
+            const store = poll(
+                () => {
+                    n++
+                    throw new Error('fail')
+                },
+                {interval: 5, backoffOnError: true}
+            )
+            const unsub = store.subscribe(() => {})
+            // ticks at 0, 10, 30 and 70
+            await scheduler.tick(69)
+            assert.equal(n, 3)
+            await scheduler.tick(1)
+            assert.equal(n, 4)
+            unsub()
+        } finally {
+            scheduler.restore()
+        }
+    })
+
+    test('optimistic', async function () {
+        const store = writable({value: 1})
+        const values: any[] = []
+        const unsub = store.value.subscribe((v) => values.push(v))
+        const result = await store.optimistic(
+            (v) => (v || 0) + 1,
+            async (v) => {
+                await sleep(1)
+                return v * 10
+            }
+        )
+        assert.equal(result, 20)
+        unsub()
+        assert.deepEqual(values, [1, 2, 20])
+    })
+
+    test('optimistic rollback', async function () {
+        const store = writable({value: 1})
+        const results: any[] = []
+        const unsub = store.subscribe((r) => results.push(r))
+        await assert.rejects(
+            store.optimistic(
+                () => 2,
+                async () => {
+                    throw new Error('fail')
+                }
+            ),
+            /fail/
+        )
+        unsub()
+        assert.deepEqual(results, [
+            {state: 'ok', value: 1},
+            {state: 'ok', value: 2},
+            {state: 'ok', value: 1},
+        ])
+        assert.equal(get(store.commitError)?.message, 'fail')
+        await store.optimistic(
+            () => 3,
+            async (v) => v
+        )
+        assert.equal(get(store.commitError), undefined)
+    })
+
+    test('optimistic set while committing', async function () {
+        const store = writable({value: 1})
+        const committed = store.optimistic(
+            (v) => (v || 0) + 1,
+            async (v) => {
+                await sleep(1)
+                return v * 10
+            }
+        )
+        assert.deepEqual(get(store), {state: 'ok', value: 2})
+        // e.g. pushed by the server
+        store.set({value: 100})
+        assert.equal(await committed, 20)
+        assert.deepEqual(get(store), {state: 'ok', value: 100})
+        const failed = store.optimistic(
+            () => 101,
+            async () => {
+                await sleep(1)
+                throw new Error('fail')
+            }
+        )
+        store.updateValue((v) => (v || 0) + 1)
+        await assert.rejects(failed, /fail/)
+        assert.deepEqual(get(store), {state: 'ok', value: 102})
+    })
+
+    test('optimistic overlapping', async function () {
+        const server: string[] = []
+        const store = writable<string[]>({value: []})
+        const values: any[] = []
+        const unsub = store.value.subscribe((v) => values.push(v))
+        const add = (item: string, delay: number, fail = false) =>
+            store
+                .optimistic(
+                    (items) => [...(items || []), item],
+                    async () => {
+                        await sleep(delay)
+                        if (fail) {
+                            throw new Error('fail')
+                        }
+                        server.push(item.toUpperCase())
+                        return server.slice()
+                    }
+                )
+                .catch(() => null)
+        await Promise.all([add('a', 10), add('b', 1, true), add('c', 5)])
+        unsub()
+        assert.deepEqual(values, [
+            [],
+            ['a'],
+            ['a', 'b'],
+            ['a', 'b', 'c'],
+            ['a', 'c'],
+            ['C', 'a'],
+            ['C', 'A'],
+        ])
+    })
+
+    test('typed errors', async function () {
+        class ApiError extends Error {
+            constructor(readonly code: number) {
+                super(`api error ${code}`)
+            }
+        }
+        const api = writable<number, ApiError>({value: 1})
+        const doubled = derived(api, (value) => value * 2)
+        const codes = doubled.mapError((error) => error.code)
+        const results: any[] = []
+        const unsub = codes.subscribe((result) => results.push(result))
+        api.set({error: new ApiError(404)})
+        api.set({value: 2})
+        api.set({error: new ApiError(500)})
+        unsub()
+        assert.deepEqual(results, [
+            {state: 'ok', value: 2},
+            {state: 'err', error: 404},
+            {state: 'ok', value: 4},
+            {state: 'err', error: 500},
+        ])
+    })
+
+    test('catch with guard', async function () {
+        class ApiError extends Error {
+            code = 1
+        }
+        const store = writable<number>({error: new ApiError('api')})
+        const values: any[] = []
+        const unsub = store
+            .catch(isError(ApiError), (error) => -error.code)
+            .subscribe((v) => values.push(v))
+        store.set({error: new Error('other')})
+        store.set({value: 1})
+        unsub()
+        assert.deepEqual(values, [-1, 1])
+        assert.equal(isError(ApiError, TypeError)(new TypeError()), true)
+        assert.equal(isError(ApiError)(new Error()), false)
+    })
+
+    test('allSettled', async function () {
+        const a = writable<number>({value: 1})
+        const b = writable<string>({})
+        const results: any[] = []
+        const unsub = allSettled([a, b]).subscribe((result) => results.push(result))
+        const error = new Error('b')
+        b.set({error})
+        a.set({value: 2})
+        unsub()
+        assert.deepEqual(results, [
+            {state: 'pending'},
+            {
+                state: 'ok',
+                value: [
+                    {state: 'ok', value: 1},
+                    {state: 'err', error},
+                ],
+            },
+            {
+                state: 'ok',
+                value: [
+                    {state: 'ok', value: 2},
+                    {state: 'err', error},
+                ],
+            },
+        ])
+    })
+
+    test('any', async function () {
+        const a = writable<number>({})
+        const b = writable<number>({})
+        const values: any[] = []
+        const store = any([a, b])
+        const unsub = store.subscribe((result) => values.push(result.value))
+        b.set({value: 2})
+        a.set({value: 1})
+        b.set({error: new Error('b')})
+        unsub()
+        assert.deepEqual(values, [undefined, 2, 2, 1])
+        a.set({error: new Error('a')})
+        const error = await store.promise.catch((error) => error)
+        assert.ok(error instanceof AggregateError)
+        assert.deepEqual(
+            error.errors.map((e: Error) => e.message),
+            ['a', 'b']
+        )
+    })
+
+    test('race', async function () {
+        const a = writable<number>({})
+        const b = writable<number>({})
+        const results: any[] = []
+        const unsub = race([a, b]).subscribe((result) => results.push(result))
+        const error = new Error('b')
+        b.set({error})
+        a.set({value: 1})
+        b.set({loading: true})
+        unsub()
+        assert.deepEqual(results, [
+            {state: 'pending'},
+            {state: 'err', error},
+            {state: 'err', error},
+            {state: 'ok', value: 1},
+        ])
+    })
+
+    test('combineErrors', async function () {
+        const a = writable<number>({})
+        const b = writable<number>({})
+        const c = writable<number>({value: 3})
+        const store = combineErrors([a, b, c], {staleWhileRevalidate: true})
+        const results: any[] = []
+        const unsub = store.subscribe((result) => results.push(result))
+        a.set({value: 1})
+        b.set({value: 2})
+        a.set({error: new Error('a')})
+        b.set({error: new Error('b')})
+        unsub()
+        assert.deepEqual(results.slice(0, 3), [
+            {state: 'pending'},
+            {state: 'pending'},
+            {state: 'ok', value: [1, 2, 3]},
+        ])
+        assert.deepEqual(results[3].error.errors, [new Error('a')])
+        assert.deepEqual(results[4].error.errors, [new Error('a'), new Error('b')])
+    })
+
+    test('undefined and falsy values', async function () {
+        const store = writable<number | undefined>({state: 'ok', value: undefined})
+        assert.equal(get(store.resolved), true)
+        assert.equal(await store.promise, undefined)
+        await sleep(1)
+        const values: any[] = []
+        const unsub = store
+            .map<number | undefined>((result) =>
+                result.state === 'ok' ? {state: 'ok', value: result.value ? 0 : undefined} : result
+            )
+            .catch(() => undefined)
+            .subscribe((value) => values.push(value))
+        store.set({value: 1})
+        store.set({error: new Error('fail')})
+        store.set({value: 0})
+        unsub()
+        assert.deepEqual(values, [undefined, 0, undefined, undefined])
+        const auto = derived(store, () => undefined)
+        store.set({value: 2})
+        assert.deepEqual(get(auto), {state: 'ok', value: undefined})
+        const flat = flatten(readable({value: readable({value: null})}))
+        assert.deepEqual(get(flat), {state: 'ok', value: null})
+        assert.deepEqual(get(writable({value: undefined})), {state: 'pending'})
+        const explicit = readable<number | undefined>(async (set) => {
+            set(undefined)
+        })
+        assert.deepEqual(await explicit.refresh(), {state: 'ok', value: undefined})
+        const connected = readable<number>(async (set) => {
+            await sleep(1)
+            setTimeout(() => set(42), 5)
+        })
+        const results: any[] = []
+        const unsubConnected = connected.subscribe((result) => results.push(result))
+        assert.equal(await connected.promise, 42)
+        unsubConnected()
+        assert.deepEqual(results, [{state: 'pending'}, {state: 'ok', value: 42}])
+    })
+
+    test('timeout', async function () {
+        const store = writable<number>({})
+        const results: any[] = []
+        const unsub = store.timeout(50).subscribe((result) => results.push(result))
+        await sleep(20)
+        store.set({value: 1})
+        store.set({value: 1, loading: true})
+        await sleep(20)
+        store.set({loading: true, attempt: 2})
+        await sleep(20)
+        assert.equal(results.length, 4)
+        await sleep(50)
+        unsub()
+        assert.equal(results.length, 5)
+        assert.ok(results[4].error instanceof TimeoutError)
+        assert.equal(results[4].error.ms, 50)
+        const custom = new Error('too slow')
+        const timedOut = writable<number>({}).timeout(1, {error: custom})
+        await assert.rejects(timedOut.promise, custom)
+    })
+
+    test('toPromise', async function () {
+        const store = writable<number>({})
+        await assert.rejects(store.promiseWithin(1), TimeoutError)
+        const controller = new AbortController()
+        const aborted = store.toPromise({signal: controller.signal})
+        controller.abort()
+        await assert.rejects(aborted, {name: 'AbortError'})
+        let subscribers = 0
+        const counted = readable<number>(() => {
+            subscribers++
+            return () => subscribers--
+        })
+        const promise = counted.toPromise({timeout: 100})
+        assert.equal(subscribers, 1)
+        const resolving = store.toPromise({timeout: 100})
+        store.set({value: 1})
+        assert.equal(await resolving, 1)
+        await assert.rejects(counted.toPromise({signal: controller.signal}), {name: 'AbortError'})
+        assert.equal(subscribers, 1)
+        await assert.rejects(promise, TimeoutError)
+        assert.equal(subscribers, 0)
+    })
+
+    test('debounce', async function () {
+        const store = writable<string>({value: ''})
+        const values: any[] = []
+        const unsub = store.debounce(20).subscribe((result) => values.push(result))
+        store.set({value: 'a'})
+        store.set({value: 'ab'})
+        await sleep(30)
+        store.set({value: 'abc'})
+        const error = new Error('fail')
+        store.set({error})
+        await sleep(30)
+        store.set({value: 'abcd'})
+        unsub()
+        await sleep(30)
+        assert.deepEqual(values, [
+            {state: 'ok', value: ''},
+            {state: 'ok', value: 'ab'},
+            {state: 'err', error},
+        ])
+    })
+
+    test('throttle', async function () {
+        const store = writable<number>({value: 0})
+        const values: any[] = []
+        const unsub = store.throttle(60).value.subscribe((value) => values.push(value))
+        store.set({value: 1})
+        store.set({value: 2})
+        assert.deepEqual(values, [0])
+        await sleep(80)
+        assert.deepEqual(values, [0, 2])
+        store.set({value: 3})
+        store.set({})
+        store.set({value: 4})
+        await sleep(150)
+        store.set({value: 5})
+        unsub()
+        await sleep(30)
+        assert.deepEqual(values, [0, 2, undefined, 4, 5])
+    })
+
+    test('distinct', async function () {
+        const store = writable<{id: number}>({value: {id: 1}})
+        const values: any[] = []
+        const unsub = store
+            .distinct((a, b) => a.id === b.id)
+            .subscribe((result) => values.push(result.value?.id))
+        store.set({value: {id: 1}})
+        store.set({value: {id: 2}})
+        store.set({value: {id: 2}, loading: true})
+        store.set({value: {id: 2}})
+        store.set({value: {id: 2}})
+        unsub()
+        assert.deepEqual(values, [1, 2, 2, 2])
+    })
+
+    test('shared getters', async function () {
+        let starts = 0
+        let stops = 0
+        const store = readable<number>((set) => {
+            starts++
+            set(1)
+            return () => {
+                stops++
+            }
+        })
+        assert.equal(store.value, store.value)
+        assert.equal(store.loading, store.loading)
+        const values: any[] = []
+        const unsubs = [
+            store.value.subscribe((value) => values.push(value)),
+            store.value.subscribe((value) => values.push(value)),
+            store.resolved.subscribe((value) => values.push(value)),
+            store.resolved.subscribe((value) => values.push(value)),
+        ]
+        const fallback = store.catch(() => 0)
+        unsubs.push(fallback.subscribe((value) => values.push(value)))
+        unsubs.push(fallback.subscribe((value) => values.push(value)))
+        assert.equal(starts, 1)
+        assert.deepEqual(values, [1, 1, true, true, 1, 1])
+        unsubs.forEach((unsub) => unsub())
+        assert.equal(stops, 1)
+        assert.equal(get(store.value), 1)
+        assert.equal(stops, 2)
+    })
+
+    test('subscribe to getter inside subscriber', function () {
+        const store = writable<number>({value: 1})
+        const calls: any[] = []
+        const unsubs: Array<() => void> = []
+        unsubs.push(
+            store.value.subscribe((value) => {
+                calls.push(['outer', value])
+                if (value === 2) {
+                    unsubs.push(store.value.subscribe((value) => calls.push(['inner', value])))
+                }
+            })
+        )
+        store.set({value: 2})
+        store.set({value: 3})
+        unsubs.forEach((unsub) => unsub())
+        assert.deepEqual(calls, [
+            ['outer', 1],
+            ['outer', 2],
+            ['inner', 2],
+            ['outer', 3],
+            ['inner', 3],
+        ])
+    })
+
+    test('promise inside subscriber', async function () {
+        const store = writable<number>({})
+        const promises: Promise<number>[] = []
+        const unsub = store.subscribe((result) => {
+            if (result.state === 'ok') {
+                promises.push(store.promise)
+            }
+        })
+        store.set({value: 1})
+        store.set({value: 2})
+        unsub()
+        assert.deepEqual(await Promise.all(promises), [1, 2])
+        const sync = readable({value: 1})
+        let starts = 0
+        const counted = readable<number>((set) => {
+            starts++
+            set(1)
+            return () => {
+                starts--
+            }
+        })
+        assert.equal(await sync.promise, 1)
+        assert.equal(await counted.promise, 1)
+        // released without waiting for a timer
+        assert.equal(starts, 0)
+    })
 })
 
 function sleep(ms: number) {
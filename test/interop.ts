@@ -0,0 +1,143 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {fromAsyncIterable, fromObservable, writable} from '../src'
+import type {InteropObservable, Observer, Subscribable} from '../src'
+
+suite('interop', function () {
+    test('async iterator', async function () {
+        const store = writable<number>({})
+        const values: number[] = []
+        const iterating = (async () => {
+            for await (const value of store) {
+                values.push(value)
+                if (value === 2) {
+                    store.set({value: 3})
+                    store.set({value: 4})
+                    await sleep(1)
+                }
+            }
+        })()
+        store.set({value: 1})
+        await sleep(1)
+        store.set({value: 2, loading: true})
+        store.set({value: 2})
+        await sleep(5)
+        store.set({error: new Error('fail')})
+        await assert.rejects(iterating, {message: 'fail'})
+        assert.deepEqual(values, [1, 2, 4])
+    })
+
+    test('async iterator buffered error', async function () {
+        const store = writable<number>({value: 1})
+        const iterator = store[Symbol.asyncIterator]()
+        assert.deepEqual(await iterator.next(), {value: 1, done: false})
+        const error = new Error('fail')
+        store.set({error})
+        store.set({value: 2})
+        await assert.rejects(iterator.next(), error)
+        assert.deepEqual(await iterator.next(), {value: undefined, done: true})
+    })
+
+    test('async iterator return', async function () {
+        let stopped = false
+        const store = writable<number>({value: 1}, () => () => {
+            stopped = true
+        })
+        for await (const value of store) {
+            assert.equal(value, 1)
+            break
+        }
+        assert.equal(stopped, true)
+    })
+
+    test('observable', async function () {
+        const store = writable<number>({value: 1})
+        const observable = (store as any)[Symbol.observable || '@@observable']()
+        assert.equal(observable[Symbol.observable || '@@observable'](), observable)
+        const values: any[] = []
+        const subscription = observable.subscribe({
+            next: (value: number) => values.push(value),
+            error: (error: Error) => values.push(error.message),
+        })
+        store.set({value: 2})
+        store.set({error: new Error('fail')})
+        store.set({value: 3})
+        subscription.unsubscribe()
+        assert.deepEqual(values, [1, 2, 'fail'])
+    })
+
+    test('observable types', function () {
+        // what rxjs's from() accepts, checked when the tests are compiled
+        interface Interop<T> {
+            [Symbol.observable](): Subscribable<T>
+        }
+        const store = writable<number>({value: 1})
+        const interop: Interop<number> = store
+        const observe: () => InteropObservable<number> = store[Symbol.observable]
+        assert.equal(interop, store)
+        assert.equal(observe, store[Symbol.observable])
+    })
+
+    test('fromAsyncIterable', async function () {
+        let finished = false
+        const store = fromAsyncIterable(async function* () {
+            try {
+                yield 1
+                await sleep(1)
+                yield 2
+                await sleep(20)
+                yield 3
+            } finally {
+                finished = true
+            }
+        })
+        const values: any[] = []
+        const unsub = store.value.subscribe((value) => values.push(value))
+        await sleep(10)
+        unsub()
+        // the generator returns once the pending step settles
+        await sleep(30)
+        assert.deepEqual(values, [undefined, 1, 2])
+        assert.equal(finished, true)
+        const failing = fromAsyncIterable(async function* () {
+            yield 1
+            throw new Error('fail')
+        })
+        const states: any[] = []
+        const unsubFailing = failing.subscribe((result) => states.push(result.state))
+        await sleep(1)
+        unsubFailing()
+        assert.deepEqual(states, ['pending', 'ok', 'err'])
+    })
+
+    test('fromObservable', async function () {
+        let observer: Observer<number> | undefined
+        const store = fromObservable<number>({
+            subscribe: (o) => {
+                observer = o
+                return () => {
+                    observer = undefined
+                }
+            },
+        })
+        const results: any[] = []
+        const unsub = store.subscribe((result) => results.push(result))
+        observer!.next!(1)
+        const error = new Error('fail')
+        observer!.error!(error)
+        unsub()
+        assert.equal(observer, undefined)
+        assert.deepEqual(results, [
+            {state: 'pending'},
+            {state: 'ok', value: 1},
+            {state: 'err', error},
+        ])
+    })
+})
+
+function sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+        setTimeout(resolve, ms)
+    })
+}
@@ -0,0 +1,74 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {detectLeaks, writable} from '../src'
+import type {LeakDetector} from '../src'
+
+suite('leaks', function () {
+    let detector: LeakDetector | undefined
+
+    teardown(function () {
+        if (detector) {
+            detector.stop()
+            detector = undefined
+        }
+    })
+
+    test('active subscriptions', function () {
+        detector = detectLeaks()
+        const prices = writable<number>({value: 1}, {name: 'prices'})
+        const total = prices.mapValue((price) => price * 2)
+        const unsubPrices = prices.subscribe(() => undefined)
+        const unsubTotal = total.subscribe(() => undefined)
+        // the subscription to prices made by total is released with it
+        assert.deepEqual(
+            detector.active().map((leak) => leak.store),
+            ['prices', 'prices.mapValue']
+        )
+        assert.ok(detector.active()[0].stack)
+        unsubPrices()
+        assert.deepEqual(
+            detector.active().map((leak) => leak.store),
+            ['prices.mapValue']
+        )
+        unsubTotal()
+        assert.deepEqual(detector.active(), [])
+        detector.stop()
+        const unsub = prices.subscribe(() => undefined)
+        assert.deepEqual(detector.active(), [])
+        unsub()
+    })
+
+    test('warn when collected', function () {
+        const globals = global as any
+        const Registry = globals.FinalizationRegistry
+        // stands in for the garbage collector, collect() runs the callback like a collection would
+        const registered: Array<{target: unknown; held: unknown}> = []
+        let cleanup: (held: unknown) => void = () => undefined
+        globals.FinalizationRegistry = class {
+            constructor(callback: (held: unknown) => void) {
+                cleanup = callback
+            }
+            register(target: unknown, held: unknown) {
+                registered.push({target, held})
+            }
+        }
+        const collect = (target: unknown) =>
+            registered.filter((entry) => entry.target === target).forEach(({held}) => cleanup(held))
+        try {
+            const warned: string[] = []
+            detector = detectLeaks({warn: (leak) => warned.push(leak.store)})
+            const prices = writable<number>({value: 1}, {name: 'prices'})
+            const released = prices.subscribe(() => undefined)
+            const dropped = prices.subscribe(() => undefined)
+            released()
+            collect(released)
+            assert.deepEqual(warned, [])
+            collect(dropped)
+            assert.deepEqual(warned, ['prices'])
+            assert.deepEqual(detector.active(), [])
+        } finally {
+            globals.FinalizationRegistry = Registry
+        }
+    })
+})
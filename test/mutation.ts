@@ -0,0 +1,119 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {get} from 'svelte/store'
+
+import {BusyError, mutation, readable, writable} from '../src'
+
+suite('mutation', function () {
+    test('run', async function () {
+        const save = mutation(async (name: string) => {
+            await sleep(1)
+            if (!name) {
+                throw new Error('Name required')
+            }
+            return name.length
+        })
+        const results: any[] = []
+        const unsub = save.subscribe((result) => results.push(result))
+        assert.equal(get(save.isRunning), false)
+        const running = save.run('foo')
+        assert.equal(get(save.isRunning), true)
+        assert.deepEqual(await running, {state: 'ok', value: 3})
+        assert.equal(get(save.isRunning), false)
+        const failed = await save.run('')
+        assert.equal(failed.state, 'err')
+        save.reset()
+        unsub()
+        assert.deepEqual(results, [
+            {state: 'pending'},
+            {state: 'pending', loading: true},
+            {state: 'ok', value: 3},
+            {state: 'ok', value: 3, loading: true},
+            {state: 'err', error: failed.error},
+            {state: 'pending'},
+        ])
+    })
+
+    test('strategies', async function () {
+        const runs: number[] = []
+        const fn = async (n: number, signal: AbortSignal) => {
+            runs.push(n)
+            await sleep(5)
+            if (signal.aborted) {
+                runs.push(-n)
+            }
+            return n
+        }
+        const latest = mutation(fn)
+        const first = latest.run(1)
+        assert.deepEqual(await latest.run(2), {state: 'ok', value: 2})
+        assert.equal((await first).error?.name, 'AbortError')
+        assert.deepEqual(runs, [1, 2, -1])
+        assert.deepEqual(get(latest), {state: 'ok', value: 2})
+
+        runs.length = 0
+        const queued = mutation(fn, {strategy: 'concat'})
+        const all = await Promise.all([queued.run(1), queued.run(2)])
+        assert.deepEqual(
+            all.map((result) => result.value),
+            [1, 2]
+        )
+        assert.deepEqual(runs, [1, 2])
+
+        const exhaust = mutation(fn, {strategy: 'exhaust'})
+        const running = exhaust.run(1)
+        const busy = await exhaust.run(2)
+        assert.ok(busy.error instanceof BusyError)
+        assert.deepEqual(await running, {state: 'ok', value: 1})
+
+        const reset = mutation(fn)
+        const aborted = reset.run(1)
+        reset.reset()
+        assert.equal(get(reset.isRunning), false)
+        assert.equal((await aborted).error?.name, 'AbortError')
+        assert.deepEqual(get(reset), {state: 'pending'})
+    })
+
+    test('hooks', async function () {
+        const todos = writable<string[]>({value: []})
+        let fetches = 0
+        const count = readable<number>(
+            async () => {
+                fetches++
+                return fetches
+            },
+            {tags: ['todos']}
+        )
+        const unsub = count.subscribe(() => undefined)
+        const errors: string[] = []
+        const add = mutation(
+            async (todo: string) => {
+                if (!todo) {
+                    throw new Error('Empty')
+                }
+                return todo
+            },
+            {
+                onSuccess: (todo) => {
+                    todos.updateValue((items) => [...(items || []), todo])
+                },
+                onError: (error, todo) => {
+                    errors.push(`${error.message} ${JSON.stringify(todo)}`)
+                },
+                invalidates: ['todos'],
+            }
+        )
+        await add.run('foo')
+        await add.run('')
+        assert.deepEqual(get(todos), {state: 'ok', value: ['foo']})
+        assert.deepEqual(errors, ['Empty ""'])
+        assert.equal(await count.toPromise(), 2)
+        unsub()
+    })
+})
+
+function sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+        setTimeout(resolve, ms)
+    })
+}
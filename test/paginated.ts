@@ -0,0 +1,103 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {get} from 'svelte/store'
+
+import {paginated} from '../src'
+
+interface Page {
+    rows: number[]
+    next?: number
+}
+
+suite('paginated', function () {
+    test('load more', async function () {
+        const fetched: Array<number | undefined> = []
+        let fail = false
+        const rows = paginated(
+            async (cursor: number | undefined) => {
+                fetched.push(cursor)
+                await sleep(1)
+                if (fail) {
+                    throw new Error('Boom')
+                }
+                const start = cursor || 0
+                return {rows: [start, start + 1], next: start < 2 ? start + 2 : undefined}
+            },
+            {getNextCursor: (page: Page) => page.next, getItems: (page) => page.rows}
+        )
+        const results: any[] = []
+        const unsub = rows.subscribe((result) => results.push(result))
+        assert.deepEqual(await rows.toPromise(), [0, 1])
+        assert.equal(get(rows.hasMore), true)
+        fail = true
+        const error = await rows.loadMore()
+        assert.deepEqual(error, {state: 'ok', value: [0, 1]})
+        assert.equal(get(rows.pageError)?.message, 'Boom')
+        fail = false
+        const [first, second] = await Promise.all([rows.loadMore(), rows.loadMore()])
+        assert.deepEqual(first, {state: 'ok', value: [0, 1, 2, 3]})
+        assert.equal(first, second)
+        assert.equal(get(rows.pageError), undefined)
+        assert.equal(get(rows.hasMore), false)
+        assert.equal(await rows.loadMore(), get(rows))
+        assert.deepEqual(fetched, [undefined, 2, 2])
+        assert.deepEqual(await rows.refresh(), {state: 'ok', value: [0, 1]})
+        assert.equal(get(rows.hasMore), true)
+        unsub()
+        assert.deepEqual(
+            results.map((result) => [result.state, result.value, result.loading]),
+            [
+                ['pending', undefined, undefined],
+                ['ok', [0, 1], undefined],
+                ['ok', [0, 1], true],
+                ['ok', [0, 1], undefined],
+                ['ok', [0, 1], true],
+                ['ok', [0, 1, 2, 3], undefined],
+                ['ok', [0, 1, 2, 3], true],
+                ['ok', [0, 1], undefined],
+            ]
+        )
+    })
+
+    test('first page error', async function () {
+        let calls = 0
+        const items = paginated<string>(
+            async () => {
+                if (calls++ === 0) {
+                    throw new Error('Down')
+                }
+                return ['a']
+            },
+            {getNextCursor: () => undefined}
+        )
+        await assert.rejects(items.toPromise(), /Down/)
+        assert.deepEqual(await items.loadMore(), {state: 'ok', value: ['a']})
+        assert.equal(get(items.hasMore), false)
+    })
+
+    test('refresh aborts load more', async function () {
+        const signals: AbortSignal[] = []
+        const items = paginated(
+            async (cursor: number | undefined, signal) => {
+                signals.push(signal)
+                await sleep(5)
+                return [cursor || 0]
+            },
+            {getNextCursor: (page: number[]) => page[0] + 1}
+        )
+        const unsub = items.subscribe(() => undefined)
+        await items.toPromise()
+        const more = items.loadMore()
+        const refreshed = items.refresh()
+        assert.equal(signals[1].aborted, true)
+        assert.deepEqual(await more, {state: 'ok', value: [0]})
+        assert.deepEqual(await refreshed, {state: 'ok', value: [0]})
+        unsub()
+    })
+})
+
+function sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+        setTimeout(resolve, ms)
+    })
+}
@@ -0,0 +1,141 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {localStorageAdapter, memoryAdapter, persisted} from '../src'
+import type {StorageAdapter} from '../src'
+
+suite('persisted', function () {
+    test('hydrate and write', async function () {
+        const data = new Map([['count', JSON.stringify({version: 0, value: 1})]])
+        const storage = memoryAdapter(data)
+        const count = persisted('count', {storage, initial: 0})
+        assert.equal(await count.toPromise(), 1)
+        count.set({value: 2})
+        assert.equal(data.get('count'), JSON.stringify({version: 0, value: 2}))
+        count.updateValue((value) => (value || 0) + 1)
+        assert.equal(data.get('count'), JSON.stringify({version: 0, value: 3}))
+        const empty = persisted('empty', {storage, initial: 'nothing'})
+        assert.equal(await empty.toPromise(), 'nothing')
+        const missing = persisted<number>('missing', {storage})
+        assert.equal(await missing.toPromise(), undefined)
+    })
+
+    test('invalid data', async function () {
+        const storage = memoryAdapter(new Map([['bad', '{nope']]))
+        const bad = persisted('bad', {storage})
+        await assert.rejects(bad.toPromise(), SyntaxError)
+        await sleep(1)
+        bad.set({value: 'fixed'})
+        assert.equal(await bad.toPromise(), 'fixed')
+    })
+
+    test('migrate', async function () {
+        const data = new Map([['name', JSON.stringify({version: 1, value: 'foo'})]])
+        const storage = memoryAdapter(data)
+        const name = persisted('name', {
+            storage,
+            version: 2,
+            migrate: (value, version) => ({name: value, from: version}),
+        })
+        assert.deepEqual(await name.toPromise(), {name: 'foo', from: 1})
+        const unversioned = persisted('name', {storage, version: 3})
+        await assert.rejects(unversioned.toPromise(), /has version 1, expected 3/)
+    })
+
+    test('sync', async function () {
+        const storage = memoryAdapter()
+        const a = persisted('shared', {storage, initial: 'a'})
+        const b = persisted('shared', {storage, initial: 'b'})
+        const values: any[] = []
+        const unsubA = a.value.subscribe(() => undefined)
+        const unsubB = b.value.subscribe((value) => values.push(value))
+        await sleep(1)
+        a.set({value: 'from a'})
+        unsubA()
+        unsubB()
+        assert.deepEqual(values, [undefined, 'b', 'from a'])
+    })
+
+    test('web storage', async function () {
+        const globals = global as any
+        const data = new Map<string, string>()
+        const storageArea = {
+            getItem: (key: string) => (data.has(key) ? data.get(key) : null),
+            setItem: (key: string, value: string) => {
+                data.set(key, value)
+            },
+        }
+        const listeners = new Set<(event: any) => void>()
+        globals.localStorage = storageArea
+        globals.window = {
+            addEventListener: (type: string, listener: (event: any) => void) => {
+                assert.equal(type, 'storage')
+                listeners.add(listener)
+            },
+            removeEventListener: (type: string, listener: (event: any) => void) => {
+                listeners.delete(listener)
+            },
+        }
+        // what the browser dispatches when another tab changes the storage
+        const dispatch = (event: {key: string | null; newValue: string | null; storageArea: any}) =>
+            listeners.forEach((listener) => listener(event))
+        const stored = (value: string) => JSON.stringify({version: 0, value})
+        try {
+            const theme = persisted('theme', {storage: localStorageAdapter(), initial: 'light'})
+            const values: any[] = []
+            const unsub = theme.value.subscribe((value) => values.push(value))
+            await sleep(1)
+            dispatch({key: 'theme', newValue: stored('dark'), storageArea})
+            dispatch({key: 'other', newValue: stored('other key'), storageArea})
+            dispatch({key: 'theme', newValue: stored('other area'), storageArea: {}})
+            // the key is null when the storage is cleared
+            dispatch({key: null, newValue: null, storageArea})
+            unsub()
+            assert.equal(listeners.size, 0)
+            assert.deepEqual(values, [undefined, 'light', 'dark', 'light'])
+            theme.set({value: 'blue'})
+            assert.equal(data.get('theme'), stored('blue'))
+        } finally {
+            delete globals.localStorage
+            delete globals.window
+        }
+    })
+
+    test('async storage', async function () {
+        const data = new Map<string, string>()
+        const storage: StorageAdapter = {
+            getItem: async (key) => {
+                await sleep(5)
+                return data.get(key)
+            },
+            setItem: async (key, value) => {
+                await sleep(1)
+                if (value.includes('fail')) {
+                    throw new Error('Write failed')
+                }
+                data.set(key, value)
+            },
+        }
+        const store = persisted('key', {storage})
+        const values: any[] = []
+        const unsub = store.subscribe((result) => values.push(result))
+        store.set({value: 'set while loading'})
+        await sleep(10)
+        store.set({value: 'fail'})
+        await sleep(5)
+        unsub()
+        assert.equal(data.get('key'), JSON.stringify({version: 0, value: 'set while loading'}))
+        assert.deepEqual(values.slice(0, 3), [
+            {state: 'pending'},
+            {state: 'ok', value: 'set while loading'},
+            {state: 'ok', value: 'fail'},
+        ])
+        assert.equal(values[3].error.message, 'Write failed')
+    })
+})
+
+function sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+        setTimeout(resolve, ms)
+    })
+}
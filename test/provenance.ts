@@ -0,0 +1,68 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {derived, errorProvenance, formatError, readable, writable} from '../src'
+
+class NotFound extends Error {
+    name = 'NotFound'
+}
+
+suite('provenance', function () {
+    test('chain', async function () {
+        const error = new NotFound('No prices')
+        const prices = readable<number[]>(
+            async () => {
+                throw error
+            },
+            {name: 'prices'}
+        )
+        const count = writable({value: 2})
+        const total = derived([prices, count], ([prices, count]) => prices.length * count, {
+            name: 'total',
+        })
+        const other = derived(prices, (prices) => prices.length)
+        const delayed = total.timeout(100)
+        const unsub = other.subscribe(() => undefined)
+        const rejected = await delayed.toPromise().catch((error) => error)
+        unsub()
+        assert.equal(rejected, error)
+        assert.ok(rejected instanceof NotFound)
+        assert.deepEqual(errorProvenance(rejected), {
+            source: 'prices',
+            chain: ['prices', 'total', 'total.timeout'],
+        })
+        assert.deepEqual(errorProvenance(rejected, other), {
+            source: 'prices',
+            chain: ['prices', 'derived'],
+        })
+        assert.equal(errorProvenance(rejected, count), undefined)
+        assert.equal(errorProvenance(new Error('Not seen')), undefined)
+        assert.equal(errorProvenance('not an object'), undefined)
+    })
+
+    test('cause', async function () {
+        const store = writable<number>({}, () => undefined, {name: 'store'})
+        const mapped = store.mapError((error) => new TypeError(`Mapped ${error.message}`))
+        const unsub = mapped.subscribe(() => undefined)
+        const error = new Error('Boom')
+        store.set({error})
+        const result = await mapped.toPromise().catch((error) => error)
+        unsub()
+        assert.ok(result instanceof TypeError)
+        assert.deepEqual(errorProvenance(result), {
+            source: 'store.mapError',
+            chain: ['store.mapError'],
+            cause: error,
+        })
+        assert.equal(
+            formatError(result),
+            [
+                'TypeError: Mapped Boom',
+                '    at store.mapError',
+                '    caused by Error: Boom',
+                '        at store',
+            ].join('\n')
+        )
+        assert.equal(formatError('plain'), 'plain')
+    })
+})
@@ -0,0 +1,122 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {createQuery} from '../src'
+import {useFakeScheduler} from '../src/testing'
+
+suite('query', function () {
+    test('shared store per key', async function () {
+        const fetched: string[] = []
+        const query = createQuery(async (key: string) => {
+            fetched.push(key)
+            await sleep(1)
+            return key.toUpperCase()
+        })
+        assert.equal(query('a'), query('a'))
+        const [a1, a2, b] = await Promise.all([
+            query('a').promise,
+            query('a').promise,
+            query('b').promise,
+        ])
+        assert.equal(a1, 'A')
+        assert.equal(a2, 'A')
+        assert.equal(b, 'B')
+        assert.deepEqual(fetched, ['a', 'b'])
+    })
+
+    test('object keys', async function () {
+        const query = createQuery(async (key: {id: number}) => key.id * 2)
+        assert.equal(query({id: 1}), query({id: 1}))
+        assert.notEqual(query({id: 1}), query({id: 2}))
+        assert.equal(await query({id: 2}).promise, 4)
+    })
+
+    test('ttl', async function () {
+        let n = 0
+        const query = createQuery(async () => ++n, {ttl: 10})
+        const store = query('a')
+        assert.equal(await store.promise, 1)
+        await sleep(1)
+        assert.equal(await query('a').promise, 1)
+        await sleep(15)
+        const next = query('a')
+        assert.equal(next, store)
+        assert.equal(await next.promise, 2)
+    })
+
+    test('ttl held store', async function () {
+        const scheduler = useFakeScheduler()
+        try {
+            let n = 0
+            const query = createQuery(async (key: string) => `${key}${++n}`, {ttl: 100})
+            const store = query('a')
+            assert.equal(await store.promise, 'a1')
+            await scheduler.tick(50)
+            assert.equal(await store.promise, 'a1')
+            await scheduler.tick(1000)
+            assert.equal(await store.promise, 'a2')
+            assert.equal(n, 2)
+        } finally {
+            scheduler.restore()
+        }
+    })
+
+    test('gc', async function () {
+        let n = 0
+        const query = createQuery(async () => ++n, {ttl: 0})
+        const store = query('a')
+        const unsub = store.subscribe(() => {})
+        query.gc()
+        assert.equal(query('a'), store)
+        assert.equal(await store.promise, 1)
+        unsub()
+        query.gc()
+        assert.equal(query('a'), store)
+        assert.equal(await store.promise, 2)
+    })
+
+    test('gc held store', async function () {
+        const scheduler = useFakeScheduler()
+        try {
+            let n = 0
+            const query = createQuery(async (key: string) => `${key}${++n}`, {ttl: 100})
+            const held = query('a')
+            assert.equal(await held.promise, 'a1')
+            await scheduler.tick(1000)
+            query('b')
+            const fresh = query('a')
+            assert.equal(fresh, held)
+            assert.equal(await fresh.promise, 'a2')
+            assert.equal(n, 2)
+            await scheduler.tick(1000)
+            query.gc()
+            assert.equal(await held.promise, 'a3')
+            assert.equal(query('a'), held)
+            assert.deepEqual(await query.invalidate('a'), [])
+        } finally {
+            scheduler.restore()
+        }
+    })
+
+    test('invalidate', async function () {
+        let n = 0
+        const query = createQuery(async (key: string) => `${key}${++n}`)
+        const a = query('a')
+        const b = query('b')
+        const values: any[] = []
+        const unsub = a.value.subscribe((v) => values.push(v))
+        assert.equal(await b.promise, 'b2')
+        await sleep(1)
+        assert.deepEqual(await query.invalidate('a'), [{state: 'ok', value: 'a3'}])
+        assert.deepEqual(await query.invalidate(), [{state: 'ok', value: 'a4'}])
+        assert.equal(await b.promise, 'b5')
+        unsub()
+        assert.deepEqual(values, [undefined, 'a1', 'a3', 'a4'])
+    })
+})
+
+function sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+        setTimeout(resolve, ms)
+    })
+}
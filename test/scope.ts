@@ -0,0 +1,101 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {createScope, derived, readable, writable} from '../src'
+
+suite('scope', function () {
+    test('snapshot', async function () {
+        const scope = createScope()
+        const stores = scope.run(() => {
+            const count = readable<number>(async () => {
+                await sleep(1)
+                return 1
+            })
+            const doubled = derived(count, (value) => value * 2, {key: 'doubled'})
+            const failing = readable<number>(async () => {
+                throw new TypeError('Nope')
+            })
+            // stores without a start notifier are not part of the scope
+            const plain = writable({value: 'plain'})
+            return {count, doubled, failing, plain}
+        })
+        const snapshot = await scope.settled()
+        assert.deepEqual(snapshot, {
+            0: {state: 'ok', value: 1},
+            doubled: {state: 'ok', value: 2},
+            1: {state: 'err', error: {name: 'TypeError', message: 'Nope'}},
+        })
+        assert.deepEqual(JSON.parse(JSON.stringify(snapshot)), scope.snapshot())
+        assert.equal(await stores.doubled.toPromise(), 2)
+    })
+
+    test('stores created while settling', async function () {
+        const scope = createScope()
+        scope.run(() =>
+            readable<number>((set) => {
+                const inner = readable<number>(async () => {
+                    await sleep(1)
+                    return 2
+                })
+                return inner.value.subscribe((value) => {
+                    if (value !== undefined) {
+                        set(value + 1)
+                    }
+                })
+            })
+        )
+        assert.deepEqual(await scope.settled(), {
+            0: {state: 'ok', value: 3},
+            1: {state: 'ok', value: 2},
+        })
+    })
+
+    test('hydrate', async function () {
+        const scope = createScope({
+            0: {state: 'ok', value: 1},
+            doubled: {state: 'ok', value: 2},
+            1: {state: 'err', error: {name: 'TypeError', message: 'Nope'}},
+        })
+        let runs = 0
+        const {count, doubled, failing} = scope.run(() => {
+            const count = readable<number>(async () => {
+                runs++
+                return 10
+            })
+            const doubled = derived(
+                count,
+                (value) => {
+                    runs++
+                    return value * 2
+                },
+                {key: 'doubled'}
+            )
+            const failing = readable<number>(async () => {
+                runs++
+                return 1
+            })
+            return {count, doubled, failing}
+        })
+        const results: any[] = []
+        const unsub = doubled.subscribe((result) => results.push(result))
+        assert.deepEqual(results, [{state: 'ok', value: 2}])
+        const error = await failing.toPromise().catch((error) => error)
+        assert.equal(error.name, 'TypeError')
+        assert.equal(error.message, 'Nope')
+        assert.equal(runs, 0)
+        assert.deepEqual(await count.refresh(), {state: 'ok', value: 10})
+        await sleep(1)
+        unsub()
+        assert.deepEqual(results, [
+            {state: 'ok', value: 2},
+            {state: 'ok', value: 20},
+        ])
+        assert.equal(runs, 2)
+    })
+})
+
+function sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+        setTimeout(resolve, ms)
+    })
+}
@@ -0,0 +1,89 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {derived, poll, readable, TimeoutError} from '../src'
+import {
+    assertStopped,
+    assertSubscribers,
+    controlled,
+    record,
+    spy,
+    useFakeScheduler,
+} from '../src/testing'
+import type {FakeScheduler} from '../src/testing'
+
+suite('testing', function () {
+    let scheduler: FakeScheduler | undefined
+
+    teardown(function () {
+        if (scheduler) {
+            scheduler.restore()
+            scheduler = undefined
+        }
+    })
+
+    test('controlled store', async function () {
+        const store = controlled<number>()
+        const doubled = derived(store, (value) => value * 2, {staleWhileRevalidate: true})
+        const recorder = record(doubled)
+        assertSubscribers(store, 1)
+        store.resolve(1)
+        store.revalidate()
+        store.resolve(2)
+        const error = new Error('Boom')
+        store.reject(error)
+        store.reset()
+        assert.deepEqual(await recorder.waitFor(6), [
+            {state: 'pending'},
+            {state: 'ok', value: 2},
+            {state: 'ok', value: 2, loading: true},
+            {state: 'ok', value: 4},
+            {state: 'err', error},
+            {state: 'err', error, loading: true},
+        ])
+        assert.deepEqual(recorder.states(), ['pending', 'ok', 'ok', 'ok', 'err', 'err'])
+        assert.throws(() => {
+            assertStopped(store)
+        }, /Store 0 leaked, 1 subscribers, 1 starts and 0 stops/)
+        recorder.stop()
+        recorder.stop()
+        assertStopped(store)
+        assert.equal(store.starts, 1)
+        await assert.rejects(recorder.waitFor(7, 5), TimeoutError)
+    })
+
+    test('spy', async function () {
+        const store = spy(readable<number>(async () => 1))
+        assert.equal(await store.toPromise(), 1)
+        assert.equal(await store.toPromise(), 1)
+        assert.equal(store.starts, 2)
+        assertStopped(store)
+        assert.deepEqual(await store.refresh(), {state: 'ok', value: 1})
+    })
+
+    test('fake scheduler', async function () {
+        scheduler = useFakeScheduler()
+        let count = 0
+        const store = poll(async () => ++count, {interval: 1000})
+        const recorder = record(store)
+        await scheduler.tick(999)
+        assert.equal(count, 1)
+        await scheduler.tick(1)
+        assert.equal(count, 2)
+        await scheduler.tick(5000)
+        assert.equal(count, 7)
+        assert.equal(scheduler.now(), 6000)
+        assert.deepEqual(
+            recorder.results.map((result) => result.value),
+            [undefined, 1, 2, 3, 4, 5, 6, 7]
+        )
+        recorder.stop()
+        assert.equal(scheduler.pending, 0)
+        const slow = readable<number>(() => undefined).timeout(500)
+        const states = record(slow)
+        await scheduler.runAll()
+        assert.equal(scheduler.now(), 6500)
+        states.stop()
+        assert.deepEqual(states.states(), ['pending', 'err'])
+    })
+})
@@ -0,0 +1,76 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {readable, ValidationError, writable} from '../src'
+import type {Schema} from '../src'
+
+interface User {
+    name: string
+    age: number
+}
+
+/** Minimal zod-like schema. */
+const userSchema: Schema<User> = {
+    safeParse: (value: any) => {
+        const issues: any[] = []
+        if (typeof value !== 'object' || value === null) {
+            return {success: false, error: {issues: [{path: [], message: 'Expected object'}]}}
+        }
+        if (typeof value.name !== 'string') {
+            issues.push({path: ['name'], message: 'Expected string'})
+        }
+        if (typeof value.age !== 'number') {
+            issues.push({path: ['age'], message: 'Expected number'})
+        }
+        if (issues.length > 0) {
+            return {success: false, error: {issues}}
+        }
+        return {success: true, data: {name: value.name.trim(), age: value.age}}
+    },
+}
+
+suite('validation', function () {
+    test('validate', async function () {
+        const valid = readable<any>(async () => ({name: ' foo ', age: 1}))
+        assert.deepEqual(await valid.validate(userSchema).toPromise(), {name: 'foo', age: 1})
+        const invalid = readable<any>(async () => ({name: 1}))
+        const error = await invalid
+            .validate(userSchema)
+            .toPromise()
+            .catch((error) => error)
+        assert.ok(error instanceof ValidationError)
+        assert.deepEqual(error.issues, [
+            {path: ['name'], message: 'Expected string'},
+            {path: ['age'], message: 'Expected number'},
+        ])
+        assert.equal(error.message, 'name: Expected string; age: Expected number')
+        const throwing = {
+            parse: (value: unknown) => {
+                if (typeof value !== 'number') {
+                    throw new TypeError('Not a number')
+                }
+                return value
+            },
+        }
+        const parsed = readable<any>({value: 'one'}).validate(throwing)
+        const parseError = await parsed.toPromise().catch((error) => error)
+        assert.deepEqual(parseError.issues, [{path: [], message: 'Not a number'}])
+    })
+
+    test('writable schema', async function () {
+        const user = writable<User>({value: {name: 'foo', age: 1}}, {schema: userSchema})
+        assert.throws(() => {
+            user.set({value: {name: 'bar'} as any})
+        }, ValidationError)
+        assert.throws(() => {
+            user.updateValue((value) => ({...value!, age: 'two' as any}))
+        }, /age: Expected number/)
+        assert.deepEqual(await user.toPromise(), {name: 'foo', age: 1})
+        user.set({value: {name: ' bar ', age: 2}})
+        assert.deepEqual(await user.toPromise(), {name: 'bar', age: 2})
+        user.set({error: new Error('Not validated')})
+        await assert.rejects(user.toPromise(), /Not validated/)
+        const fetched = writable<User, Error>(async () => ({age: 1} as any), {schema: userSchema})
+        await assert.rejects(fetched.toPromise(), ValidationError)
+    })
+})